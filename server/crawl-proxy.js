@@ -0,0 +1,289 @@
+// Local website crawler used by the verification step. Browsers cannot read cross-origin pages,
+// so the app asks this proxy to fetch a project website and reports what it found as JSON.
+//
+//   npm run crawler            # listens on http://127.0.0.1:8787
+//   GET /crawl?url=https://example.com
+//   GET /health
+//
+// Environment: CRAWL_PROXY_PORT, CRAWL_PROXY_HOST, CRAWL_ALLOW_PRIVATE=1 (allow localhost and private networks),
+// CRAWL_ALLOWED_ORIGINS (comma separated origins the app is served from, default the `ng serve` origin)
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net from 'node:net';
+import { pathToFileURL } from 'node:url';
+
+const MAX_REDIRECTS = 5;
+// Longest pause between two packets, and the total time a crawl may take including redirects
+const TIMEOUT_MS = 10000;
+const DEADLINE_MS = 20000;
+// Title, meta tags and links are near the top; there is no need to read whole pages
+const MAX_BODY_BYTES = 512 * 1024;
+const USER_AGENT = 'Mozilla/5.0 (compatible; AlphaAgentCrawler/1.0)';
+const DEFAULT_ALLOWED_ORIGINS = ['http://localhost:4200', 'http://127.0.0.1:4200'];
+
+// Loopback, private, link-local, shared, multicast and reserved ranges, including broadcast. The block
+// list also checks IPv4-mapped IPv6 addresses such as ::ffff:7f00:1 against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+const SOCIAL_PATTERNS = {
+  x: /^https?:\/\/(www\.)?(x|twitter)\.com\/(?!intent\/|share|home\b|search\b)[A-Za-z0-9_]{1,15}\/?$/i,
+  discord: /^https?:\/\/(www\.)?(discord\.gg|discord\.com\/invite)\/[A-Za-z0-9-]+\/?$/i,
+  telegram: /^https?:\/\/(www\.)?(t\.me|telegram\.me)\/(?!share\/)[A-Za-z0-9_+]{3,}\/?$/i,
+  github: /^https?:\/\/(www\.)?github\.com\/[A-Za-z0-9-]+(\/[A-Za-z0-9_.-]+)?\/?$/i,
+};
+
+/**
+ * Fetches a page, following redirects, and returns its status, redirect chain, TLS state,
+ * title, meta description and social links. Network failures are reported in `error`
+ * rather than thrown, since an unreachable website is itself a useful result.
+ */
+export async function crawlWebsite(url, { allowPrivate = false, deadlineMs = DEADLINE_MS } = {}) {
+  const started = Date.now();
+  const result = {
+    url,
+    finalUrl: url,
+    status: null,
+    ok: false,
+    redirects: [],
+    tls: null,
+    title: null,
+    description: null,
+    socials: { x: [], discord: [], telegram: [], github: [] },
+    error: null,
+    crawledAt: new Date().toISOString(),
+    durationMs: 0,
+  };
+
+  let current = url;
+  try {
+    for (let hop = 0; ; hop++) {
+      const target = new URL(current);
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        throw new Error(`Unsupported protocol ${target.protocol}`);
+      }
+      const response = await request(target, allowPrivate, started + deadlineMs);
+      result.status = response.status;
+      result.finalUrl = current;
+      if (response.tls) result.tls = response.tls;
+
+      if (response.status >= 300 && response.status < 400 && response.location) {
+        if (hop >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+        const next = new URL(response.location, target).href;
+        result.redirects.push({ url: current, status: response.status, location: next });
+        current = next;
+        continue;
+      }
+
+      result.ok = response.status >= 200 && response.status < 300;
+      if (response.body) Object.assign(result, parseHtml(response.body, current));
+      break;
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+  result.durationMs = Date.now() - started;
+  return result;
+}
+
+// Rejects once `deadline` (a timestamp) passes, even while a slow server keeps sending data
+function request(target, allowPrivate, deadline) {
+  const isHttps = target.protocol === 'https:';
+  const transport = isHttps ? https : http;
+  // IP literals skip the DNS lookup, so they are checked here
+  const literal = target.hostname.replace(/^\[|\]$/g, '');
+  if (!allowPrivate && net.isIP(literal) && isPrivateAddress(literal)) {
+    return Promise.reject(new Error(`Refusing to crawl private address ${literal}`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new Error('The website did not answer completely in time');
+      reject(error);
+      req.destroy(error);
+    }, Math.max(deadline - Date.now(), 0));
+    const settle = value => {
+      clearTimeout(timer);
+      resolve(value);
+    };
+
+    const req = transport.request(target, {
+      method: 'GET',
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5' },
+      timeout: TIMEOUT_MS,
+      // Certificate problems are recorded instead of aborting, so expired or self-signed sites still get crawled
+      rejectUnauthorized: false,
+      lookup: (hostname, options, callback) => guardedLookup(hostname, options, callback, allowPrivate),
+    }, response => {
+      const socket = response.socket;
+      const tls = isHttps ? describeTls(socket) : null;
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      const isHtml = /html|xml/i.test(response.headers['content-type'] ?? '');
+
+      if ((status >= 300 && status < 400) || !isHtml) {
+        response.destroy();
+        settle({ status, location, tls, body: null });
+        return;
+      }
+
+      const chunks = [];
+      let size = 0;
+      response.on('data', chunk => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= MAX_BODY_BYTES) response.destroy();
+      });
+      const finish = () => settle({ status, location, tls, body: Buffer.concat(chunks).toString('utf8') });
+      response.on('end', finish);
+      response.on('close', finish);
+      response.on('error', finish);
+    });
+    req.on('timeout', () => req.destroy(new Error(`Timed out after ${TIMEOUT_MS / 1000}s`)));
+    req.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    req.end();
+  });
+}
+
+function describeTls(socket) {
+  const certificate = socket.getPeerCertificate?.() ?? {};
+  return {
+    valid: socket.authorized === true,
+    error: socket.authorizationError ? String(socket.authorizationError) : null,
+    issuer: certificate.issuer?.O ?? certificate.issuer?.CN ?? null,
+    validTo: certificate.valid_to ? new Date(certificate.valid_to).toISOString() : null,
+  };
+}
+
+// Refuses to connect to loopback, link-local and private addresses, so a crafted CSV cannot probe the local network
+function guardedLookup(hostname, options, callback, allowPrivate) {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+    if (!allowPrivate && addresses.some(isPrivateAddress)) {
+      return callback(new Error(`Refusing to crawl private address of ${hostname}`), address, family);
+    }
+    callback(null, address, family);
+  });
+}
+
+function isPrivateAddress(address) {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+export function parseHtml(html, baseUrl) {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const description = metaContent(html, 'description') ?? metaContent(html, 'og:description');
+
+  const socials = { x: [], discord: [], telegram: [], github: [] };
+  for (const match of html.matchAll(/<a\b[^>]*?\bhref\s*=\s*["']([^"']+)["']/gi)) {
+    let href;
+    try {
+      href = new URL(decodeEntities(match[1]), baseUrl).href.replace(/[?#].*$/, '');
+    } catch {
+      continue;
+    }
+    for (const [platform, pattern] of Object.entries(SOCIAL_PATTERNS)) {
+      if (pattern.test(href) && !socials[platform].includes(href)) {
+        socials[platform].push(href);
+      }
+    }
+  }
+
+  return {
+    title: title ? cleanText(title) : null,
+    description: description ? cleanText(description) : null,
+    socials,
+  };
+}
+
+function metaContent(html, name) {
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const tag = match[0];
+    const key = tag.match(/\b(?:name|property)\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (key?.toLowerCase() === name) {
+      return tag.match(/\bcontent\s*=\s*"([^"]*)"/i)?.[1] ?? tag.match(/\bcontent\s*=\s*'([^']*)'/i)?.[1] ?? null;
+    }
+  }
+  return null;
+}
+
+function cleanText(text) {
+  return decodeEntities(text.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim().substring(0, 300);
+}
+
+function decodeEntities(text) {
+  const named = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Only the app's own origins may use the proxy from a browser, so other web pages cannot make it
+// fetch URLs for them; requests without an Origin header (curl, scripts) are served as before
+export function createCrawlServer({ allowPrivate = false, allowedOrigins = DEFAULT_ALLOWED_ORIGINS } = {}) {
+  return http.createServer(async (req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Vary', 'Origin');
+    const requestUrl = new URL(req.url ?? '/', 'http://localhost');
+
+    const origin = req.headers.origin;
+    if (origin !== undefined && !allowedOrigins.includes(origin)) {
+      res.writeHead(403).end(JSON.stringify({ error: `Origin ${origin} is not allowed.` }));
+      return;
+    }
+    if (origin) res.setHeader('Access-Control-Allow-Origin', origin);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== 'GET') {
+      res.writeHead(405).end(JSON.stringify({ error: 'Only GET is supported.' }));
+      return;
+    }
+    if (requestUrl.pathname === '/health') {
+      res.writeHead(200).end(JSON.stringify({ ok: true }));
+      return;
+    }
+    if (requestUrl.pathname !== '/crawl') {
+      res.writeHead(404).end(JSON.stringify({ error: 'Not found.' }));
+      return;
+    }
+
+    const target = requestUrl.searchParams.get('url') ?? '';
+    if (!/^https?:\/\//i.test(target)) {
+      res.writeHead(400).end(JSON.stringify({ error: 'The url parameter must be an http(s) URL.' }));
+      return;
+    }
+    res.writeHead(200).end(JSON.stringify(await crawlWebsite(target, { allowPrivate })));
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.CRAWL_PROXY_PORT) || 8787;
+  const host = process.env.CRAWL_PROXY_HOST || '127.0.0.1';
+  const allowedOrigins = process.env.CRAWL_ALLOWED_ORIGINS?.split(',').map(o => o.trim()).filter(Boolean);
+  createCrawlServer({
+    allowPrivate: process.env.CRAWL_ALLOW_PRIVATE === '1',
+    allowedOrigins: allowedOrigins?.length ? allowedOrigins : DEFAULT_ALLOWED_ORIGINS,
+  }).listen(port, host, () => {
+    console.log(`Website crawler proxy listening on http://${host}:${port}`);
+  });
+}
@@ -0,0 +1,199 @@
+import http from 'node:http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { crawlWebsite, createCrawlServer } from './crawl-proxy.js';
+
+const PAGE = `<!doctype html>
+<html>
+  <head>
+    <title>Foo &amp; Bar Protocol</title>
+    <meta name="description" content="Cross-chain   lending for everyone">
+  </head>
+  <body>
+    <a href="https://x.com/fooprotocol">X</a>
+    <a href="https://twitter.com/intent/tweet?text=hi">Share</a>
+    <a href="https://discord.gg/foo-bar">Discord</a>
+    <a href="https://t.me/fooprotocol?start=1">Telegram</a>
+    <a href="https://github.com/foo-protocol/contracts">GitHub</a>
+    <a href="/docs">Docs</a>
+  </body>
+</html>`;
+
+// Stub website: every path is one case the crawler has to handle
+function startStub() {
+  const server = http.createServer((req, res) => {
+    switch (req.url) {
+      case '/page':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(PAGE);
+        break;
+      case '/old':
+        res.writeHead(301, { Location: '/moved' }).end();
+        break;
+      case '/moved':
+        res.writeHead(302, { Location: '/page' }).end();
+        break;
+      case '/whitepaper.pdf':
+        res.writeHead(200, { 'Content-Type': 'application/pdf' }).end('%PDF-1.7 <title>Not a page</title>');
+        break;
+      case '/drip': {
+        // Sends a byte now and then, so the idle timeout never fires
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        const interval = setInterval(() => res.write(' '), 20);
+        res.on('close', () => clearInterval(interval));
+        break;
+      }
+      default:
+        res.writeHead(404, { 'Content-Type': 'text/html' }).end('<title>Not found</title>');
+    }
+  });
+  return listen(server);
+}
+
+function listen(server) {
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve({ server, url: `http://127.0.0.1:${server.address().port}` });
+  }));
+}
+
+function close(server) {
+  server.closeAllConnections();
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('crawlWebsite', () => {
+  let stub;
+
+  beforeAll(async () => {
+    stub = await startStub();
+  });
+
+  afterAll(() => close(stub.server));
+
+  it('follows redirects and records the chain', async () => {
+    const result = await crawlWebsite(`${stub.url}/old`, { allowPrivate: true });
+
+    expect(result.error).toBeNull();
+    expect(result.ok).toBe(true);
+    expect(result.status).toBe(200);
+    expect(result.finalUrl).toBe(`${stub.url}/page`);
+    expect(result.redirects).toEqual([
+      { url: `${stub.url}/old`, status: 301, location: `${stub.url}/moved` },
+      { url: `${stub.url}/moved`, status: 302, location: `${stub.url}/page` },
+    ]);
+  });
+
+  it('reads the title, meta description and social links of an HTML page', async () => {
+    const result = await crawlWebsite(`${stub.url}/page`, { allowPrivate: true });
+
+    expect(result.title).toBe('Foo & Bar Protocol');
+    expect(result.description).toBe('Cross-chain lending for everyone');
+    expect(result.socials).toEqual({
+      x: ['https://x.com/fooprotocol'],
+      discord: ['https://discord.gg/foo-bar'],
+      telegram: ['https://t.me/fooprotocol'],
+      github: ['https://github.com/foo-protocol/contracts'],
+    });
+    expect(result.tls).toBeNull();
+  });
+
+  it('does not parse responses that are not HTML', async () => {
+    const result = await crawlWebsite(`${stub.url}/whitepaper.pdf`, { allowPrivate: true });
+
+    expect(result.ok).toBe(true);
+    expect(result.status).toBe(200);
+    expect(result.title).toBeNull();
+    expect(result.socials.x).toEqual([]);
+  });
+
+  it('reports error statuses without failing', async () => {
+    const result = await crawlWebsite(`${stub.url}/missing`, { allowPrivate: true });
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(404);
+    expect(result.error).toBeNull();
+  });
+
+  it('gives up on a response that never ends', async () => {
+    const result = await crawlWebsite(`${stub.url}/drip`, { allowPrivate: true, deadlineMs: 300 });
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatch(/in time/);
+    expect(result.durationMs).toBeLessThan(2000);
+  });
+
+  it.each([
+    ['loopback', 'http://127.0.0.1:{port}/page'],
+    ['a host name resolving to loopback', 'http://localhost:{port}/page'],
+    ['IPv6 loopback', 'http://[::1]:{port}/page'],
+    ['IPv4-mapped IPv6 in hex form', 'http://[::ffff:7f00:1]:{port}/page'],
+    ['a private network', 'http://192.168.1.10/'],
+    ['multicast', 'http://224.0.0.1/'],
+    ['broadcast', 'http://255.255.255.255/'],
+    ['IPv6 multicast', 'http://[ff02::1]/'],
+  ])('refuses %s', async (_, template) => {
+    const url = template.replace('{port}', new URL(stub.url).port);
+    const result = await crawlWebsite(url);
+
+    expect(result.status).toBeNull();
+    expect(result.error).toMatch(/Refusing to crawl private address/);
+  });
+});
+
+describe('createCrawlServer', () => {
+  let stub;
+  let proxy;
+
+  beforeAll(async () => {
+    stub = await startStub();
+    proxy = await listen(createCrawlServer({ allowPrivate: true, allowedOrigins: ['http://localhost:4200'] }));
+  });
+
+  afterAll(async () => {
+    await close(proxy.server);
+    await close(stub.server);
+  });
+
+  const crawl = (url, headers = {}) => fetch(`${proxy.url}/crawl?url=${encodeURIComponent(url)}`, { headers });
+
+  it('returns the crawl result as JSON to the app origin', async () => {
+    const response = await crawl(`${stub.url}/old`, { Origin: 'http://localhost:4200' });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('http://localhost:4200');
+    expect(body.finalUrl).toBe(`${stub.url}/page`);
+    expect(body.title).toBe('Foo & Bar Protocol');
+  });
+
+  it('serves requests without an Origin header', async () => {
+    const response = await crawl(`${stub.url}/page`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('rejects other web pages', async () => {
+    const response = await crawl(`${stub.url}/page`, { Origin: 'https://evil.example' });
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('rejects URLs that are not http(s)', async () => {
+    const response = await crawl('file:///etc/passwd');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('refuses private addresses unless allowed', async () => {
+    const guarded = await listen(createCrawlServer());
+    try {
+      const response = await fetch(`${guarded.url}/crawl?url=${encodeURIComponent(`${stub.url}/page`)}`);
+      const body = await response.json();
+
+      expect(body.status).toBeNull();
+      expect(body.error).toMatch(/Refusing to crawl private address/);
+    } finally {
+      await close(guarded.server);
+    }
+  });
+});
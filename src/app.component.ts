@@ -1,73 +1,318 @@
-import { ChangeDetectionStrategy, Component, ElementRef, ViewChild, AfterViewInit, inject, signal, effect, computed } from '@angular/core';
+import { ChangeDetectionStrategy, Component, ViewChild, inject, signal, effect, computed, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { CsvAnalysisService } from './services/csv-analysis.service';
-import { AnalysisResult, Project } from './models/analysis.model';
+import { FilterProfileService } from './services/filter-profile.service';
+import { ScoringModelService } from './services/scoring-model.service';
+import { ColumnMappingService } from './services/column-mapping.service';
+import { VerificationQueueService } from './services/verification-queue.service';
+import { VerificationCacheService } from './services/verification-cache.service';
+import { SessionHistoryService } from './services/session-history.service';
+import { EXPORT_FORMATS, ExportFormat, ExportService } from './services/export.service';
+import { parseAnalysisJson } from './services/export/json-export';
+import { isEnrichmentHeader } from './services/export/export-columns';
+import { CsvImportCancelledError, CsvWorkerService } from './services/csv-worker.service';
+import { detectUploadKind } from './core';
+import { buildFacets, queryProjects } from './services/project-query';
+import { diffAnalysisResults } from './services/analysis-diff';
+import { toIsoDate } from './services/launch-status';
+import { LlmUsageService } from './services/llm-usage.service';
+import { ProjectWorkflowService } from './services/project-workflow.service';
+import { ApiKeyService } from './services/api-key.service';
+import { ApiKeyError } from './services/api-key-error';
+import { I18nService } from './services/i18n.service';
+import { DEFAULT_LLM_SETTINGS, DEFAULT_MODELS, KEYLESS_PROVIDERS, LLM_PROVIDER_LABELS, LlmProviderId, LlmSettings } from './services/llm/llm-provider';
+import { AnalysisResult, ColumnMapping, CsvFilePreview, CsvParseResult, DuplicateGroup, Project } from './models/analysis.model';
+import { DEFAULT_PROJECT_QUERY, PAGE_SIZES, ProjectQuery, ProjectSortColumn } from './models/project-query.model';
+import { FilterProfile } from './models/filter-profile.model';
+import { ScoringModel } from './models/scoring-model.model';
+import { LAUNCH_TIMELINE_WEEKS, LaunchStage } from './models/launch-lifecycle.model';
+import { ScatterPoint } from './models/chart.model';
+import { API_KEY_STORAGE_MODES, ApiKeyStorageMode } from './models/api-key.model';
+import { LOCALES, LOCALE_LABELS, Locale } from './models/locale.model';
+import { FilterProfileEditorComponent } from './components/filter-profile-editor/filter-profile-editor.component';
+import { ScoringModelEditorComponent } from './components/scoring-model-editor/scoring-model-editor.component';
+import { ColumnMappingComponent, ColumnMappingConfirmation } from './components/column-mapping/column-mapping.component';
+import { VerificationQueueComponent } from './components/verification-queue/verification-queue.component';
+import { SessionHistoryComponent } from './components/session-history/session-history.component';
+import { ProjectFiltersComponent } from './components/project-filters/project-filters.component';
+import { RunDiffComponent } from './components/run-diff/run-diff.component';
+import { CrawlerSettingsComponent } from './components/crawler-settings/crawler-settings.component';
+import { UsagePanelComponent } from './components/usage-panel/usage-panel.component';
+import { ProjectWorkflowComponent } from './components/project-workflow/project-workflow.component';
+import { PipelineBoardComponent } from './components/pipeline-board/pipeline-board.component';
+import { ChartCardComponent } from './components/charts/chart-card/chart-card.component';
+import { BarChartComponent } from './components/charts/bar-chart/bar-chart.component';
+import { PieChartComponent } from './components/charts/pie-chart/pie-chart.component';
+import { ScatterChartComponent } from './components/charts/scatter-chart/scatter-chart.component';
+import { TimelineChartComponent } from './components/charts/timeline-chart/timeline-chart.component';
+import { SourceAnalysisComponent } from './components/source-analysis/source-analysis.component';
+import { FilterAuditComponent } from './components/filter-audit/filter-audit.component';
+import { TranslatePipe } from './pipes/translate.pipe';
+
+interface CsvImport {
+  // Kept so the file can be read again with a different column mapping
+  file: File;
+  fileName: string;
+  preview: CsvFilePreview;
+  mapping: ColumnMapping;
+  // Number and date format of the file
+  locale: Locale;
+}
+
+interface SessionInfo {
+  id: string;
+  fileName: string;
+  createdAt: string;
+}
 
-declare var d3: any;
 
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FilterProfileEditorComponent, ScoringModelEditorComponent, ColumnMappingComponent, VerificationQueueComponent, SessionHistoryComponent, ProjectFiltersComponent, RunDiffComponent, CrawlerSettingsComponent, UsagePanelComponent, ProjectWorkflowComponent, PipelineBoardComponent,
+    ChartCardComponent, BarChartComponent, PieChartComponent, ScatterChartComponent, TimelineChartComponent, SourceAnalysisComponent, FilterAuditComponent, TranslatePipe],
 })
-export class AppComponent implements AfterViewInit {
-  @ViewChild('categoryChart') private categoryChartContainer!: ElementRef;
-  @ViewChild('statusChart') private statusChartContainer!: ElementRef;
-  @ViewChild('scoreChart') private scoreChartContainer!: ElementRef;
+export class AppComponent {
+  @ViewChild('categoryChart') private categoryChart?: ChartCardComponent;
+  @ViewChild('statusChart') private statusChart?: ChartCardComponent;
+  @ViewChild('scoreChart') private scoreChart?: ChartCardComponent;
+  @ViewChild('sourceChart') private sourceChart?: ChartCardComponent;
 
   private analysisService = inject(CsvAnalysisService);
+  csvWorker = inject(CsvWorkerService);
+  filterProfiles = inject(FilterProfileService);
+  private scoringModels = inject(ScoringModelService);
+  private columnMappings = inject(ColumnMappingService);
+  verificationQueue = inject(VerificationQueueService);
+  private verificationCache = inject(VerificationCacheService);
+  private sessionHistory = inject(SessionHistoryService);
+  private exportService = inject(ExportService);
+  private llmUsage = inject(LlmUsageService);
+  workflows = inject(ProjectWorkflowService);
+  apiKeys = inject(ApiKeyService);
+  i18n = inject(I18nService);
   
   isLoading = signal(false);
   errorMessage = signal<string | null>(null);
   analysisResult = signal<AnalysisResult | null>(null);
+  // Parsed rows of the current file, kept so the analysis can be re-run when the active profile changes
+  private rawProjects = signal<Project[] | null>(null);
+  parseReport = signal<Omit<CsvParseResult, 'projects'> | null>(null);
+  // File waiting for the user to confirm its column mapping
+  pendingImport = signal<CsvImport | null>(null);
+  currentImport = signal<CsvImport | null>(null);
+  private session: SessionInfo | null = null;
+  private sessionSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  selectedProjects = signal<ReadonlySet<string>>(new Set());
   apiKey = signal<string | null>(null);
-
-  hasApiKey = computed(() => !!this.apiKey());
+  // Settings of the active key, which also prefill the setup form
+  llmSettings = computed(() => this.apiKeys.activeKey()?.settings ?? DEFAULT_LLM_SETTINGS);
+  setupProvider = signal<LlmProviderId>(this.llmSettings().provider);
+  setupStorage = signal<ApiKeyStorageMode>('local');
+  // Set while a new key is being checked with a test call
+  validatingApiKey = signal(false);
+  apiKeyError = signal<ApiKeyError | null>(null);
+
+  readonly llmProviders = (Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map(id => ({ id, label: LLM_PROVIDER_LABELS[id] }));
+  readonly defaultModels = DEFAULT_MODELS;
+  readonly apiKeyStorageModes = API_KEY_STORAGE_MODES;
+  readonly locales = LOCALES;
+  readonly localeLabels = LOCALE_LABELS;
+
+  // Keyless providers store an empty key, so only a missing key means the setup is incomplete
+  hasApiKey = computed(() => this.apiKey() !== null);
 
   viewMode = computed(() => {
     if (!this.hasApiKey()) {
       return 'apiKeySetup';
     }
+    if (this.pendingImport()) {
+      return 'mapping';
+    }
     return this.analysisResult() ? 'dashboard' : 'upload';
   });
 
-  private chartsRendered = false;
+  projectQuery = signal<ProjectQuery>(DEFAULT_PROJECT_QUERY);
+  page = signal(0);
+  pageSize = signal(PAGE_SIZES[0]);
+  readonly pageSizes = PAGE_SIZES;
+  readonly exportFormats = EXPORT_FORMATS;
+  readonly timelineWeeks = LAUNCH_TIMELINE_WEEKS;
+  readonly today = toIsoDate(new Date());
+
+  projectView = signal<'list' | 'board'>('list');
+  // Project whose workflow editor is open in the list view
+  expandedWorkflow = signal<string | null>(null);
+
+  // The prioritized projects matching the table's search, facets and sort order
+  visibleProjects = computed(() => queryProjects(this.analysisResult()?.prioritizedProjects ?? [], this.projectQuery()));
+  projectFacets = computed(() => buildFacets(this.analysisResult()?.prioritizedProjects ?? []));
+  // Recomputed from the current projects so verification results show up as they come in
+  sourceAnalysis = computed(() => {
+    const result = this.analysisResult();
+    const rawProjects = this.rawProjects();
+    return result && rawProjects ? this.analysisService.analyzeSourcePlatforms(rawProjects, result.prioritizedProjects) : result?.sourceAnalysis ?? [];
+  });
+  // Verified projects of the table view, colored by launch stage
+  verificationScatter = computed<ScatterPoint[]>(() => this.visibleProjects()
+    .filter(p => p.verificationScore !== undefined)
+    .map(p => ({
+      id: p.id,
+      label: p.projectName,
+      x: p.verificationScore!,
+      y: p.priorityScore ?? 0,
+      group: this.i18n.translate(`launchStage.${p.launchStage ?? 'unknown'}`),
+    })));
+
+  // Compared by value so the charts are only redrawn when the numbers actually change
+  viewSummary = computed(
+    () => this.analysisResult() ? this.analysisService.summarize(this.visibleProjects()) : null,
+    { equal: (a, b) => JSON.stringify(a) === JSON.stringify(b) }
+  );
+
+  // The summary counts launch stages by id; the pie chart shows the translated names
+  launchStageChart = computed(() => (this.viewSummary()?.launchStatusAnalysis ?? [])
+    .map(d => ({ ...d, label: this.i18n.translate(`launchStage.${d.label}`) })));
+
+  // Earlier run the current analysis is compared against; re-analyzed with the active rules so both sides match
+  comparison = signal<{ name: string; projects: Project[] } | null>(null);
+  // Only re-analyzed when the comparison file or the rules change, not with every verification update
+  private comparisonBaseline = computed(() => {
+    const comparison = this.comparison();
+    if (!comparison) return null;
+    const result = this.analysisService.analyzeData(comparison.projects, [], this.filterProfiles.activeProfile(), this.scoringModels.model());
+    return { name: comparison.name, result };
+  });
+  runDiff = computed(() => {
+    const baseline = this.comparisonBaseline();
+    const result = this.analysisResult();
+    if (!baseline || !result) return null;
+    return diffAnalysisResults(baseline.result, result, baseline.name);
+  });
+  // Re-evaluated on every session save, which also happens right after a new session starts
+  comparableSessions = computed(() => this.sessionHistory.sessions().filter(s => s.id !== this.session?.id));
+
+  pageCount = computed(() => Math.max(1, Math.ceil(this.visibleProjects().length / this.pageSize())));
+  currentPage = computed(() => Math.min(this.page(), this.pageCount() - 1));
+  pagedProjects = computed(() => {
+    const start = this.currentPage() * this.pageSize();
+    return this.visibleProjects().slice(start, start + this.pageSize());
+  });
 
   constructor() {
-    const storedKey = localStorage.getItem('gemini-api-key');
-    if (storedKey) {
-      this.apiKey.set(storedKey);
-      this.analysisService.initializeAi(storedKey);
+    // Encrypted keys stay locked until the passphrase is entered on the setup screen
+    const activeKey = this.apiKeys.activeKey();
+    if (activeKey && !activeKey.encrypted) {
+      try {
+        this.connect(activeKey.value ?? '', activeKey.settings);
+      } catch (error) {
+        console.error('Could not restore the AI settings.', error);
+      }
     }
-    
+
+    this.verificationQueue.registerUpdateHandler((projectId, updates) => {
+      this.updateProjectInSignal(projectId, updates);
+      if (updates.verificationStatus === 'verified') {
+        const project = this.analysisResult()?.prioritizedProjects.find(p => p.id === projectId);
+        if (project) this.verificationCache.put(project, updates);
+      }
+      if (updates.verificationStatus === 'verified' || updates.verificationStatus === 'failed') {
+        this.rescoreIfVerificationWeighted();
+      }
+    });
+
+    // Persist the session whenever the analysis changes, e.g. after each verification
     effect(() => {
-      if (this.analysisResult() && !this.chartsRendered) {
-        setTimeout(() => this.renderCharts(), 0);
+      if (this.analysisResult()) {
+        untracked(() => this.scheduleSessionSave());
       }
     });
+
+    effect(() => {
+      const profile = this.filterProfiles.activeProfile();
+      const scoringModel = this.scoringModels.model();
+      untracked(() => this.reanalyze(profile, scoringModel));
+    });
+  }
+
+  async saveApiKey(key: string, settings: LlmSettings, name: string, passphrase: string, validate: boolean): Promise<void> {
+    key = settings.provider === 'mock' ? '' : key.trim();
+    if (!key && !KEYLESS_PROVIDERS.includes(settings.provider)) {
+      this.errorMessage.set(this.i18n.translate('errors.emptyApiKey'));
+      return;
+    }
+    settings = { ...settings, model: settings.model.trim() || DEFAULT_MODELS[settings.provider] };
+    const storage = settings.provider === 'mock' ? 'local' : this.setupStorage();
+    if (storage === 'encrypted' && passphrase.length < 8) {
+      this.errorMessage.set(this.i18n.translate('errors.shortPassphrase'));
+      return;
+    }
+
+    this.errorMessage.set(null);
+    this.apiKeyError.set(null);
+    this.validatingApiKey.set(true);
+    try {
+      if (validate) {
+        await this.apiKeys.validate(key, settings);
+      }
+      this.connect(key, settings);
+      await this.apiKeys.add({ name: name.trim() || LLM_PROVIDER_LABELS[settings.provider], value: key, storage, settings, passphrase });
+    } catch (error: unknown) {
+      this.apiKey.set(null);
+      if (error instanceof ApiKeyError) {
+        this.apiKeyError.set(error);
+      } else {
+        this.errorMessage.set(error instanceof Error ? error.message : String(error));
+      }
+      return;
+    } finally {
+      this.validatingApiKey.set(false);
+    }
+    // Saving a key starts a new usage session; daily totals carry on
+    this.llmUsage.startSession();
   }
 
-  ngAfterViewInit() {
-    if (this.analysisResult()) {
-      this.renderCharts();
+  // Connects with a saved key; encrypted keys need their passphrase
+  async useApiKey(id: string, passphrase = ''): Promise<void> {
+    this.errorMessage.set(null);
+    this.apiKeyError.set(null);
+    const key = this.apiKeys.keys().find(k => k.id === id);
+    if (!key) return;
+    try {
+      this.connect(await this.apiKeys.reveal(id, passphrase), key.settings);
+      this.apiKeys.setActive(id);
+    } catch (error: unknown) {
+      this.errorMessage.set(error instanceof Error ? error.message : String(error));
+      return;
     }
+    this.llmUsage.startSession();
   }
-  
-  saveApiKey(key: string): void {
-    if (!key.trim()) {
-      this.errorMessage.set('API Key cannot be empty.');
+
+  // Switching to an encrypted key goes through the setup screen to ask for its passphrase
+  switchApiKey(id: string): void {
+    const key = this.apiKeys.keys().find(k => k.id === id);
+    if (!key) return;
+    if (key.encrypted) {
+      this.apiKeys.setActive(id);
+      this.apiKey.set(null);
       return;
     }
-    localStorage.setItem('gemini-api-key', key);
+    this.useApiKey(id);
+  }
+
+  removeApiKey(id: string): void {
+    this.apiKeys.remove(id);
+  }
+
+  private connect(key: string, settings: LlmSettings): void {
+    this.analysisService.initializeAi(key, settings);
     this.apiKey.set(key);
-    this.analysisService.initializeAi(key);
-    this.errorMessage.set(null);
   }
 
+  // Saved keys are kept, so the setup screen can switch back to them
   changeApiKey(): void {
-    localStorage.removeItem('gemini-api-key');
     this.apiKey.set(null);
     this.resetAnalysis();
   }
@@ -79,27 +324,40 @@ export class AppComponent implements AfterViewInit {
     }
 
     const file = input.files[0];
-    if (file.type !== 'text/csv') {
-        this.errorMessage.set('Invalid file type. Please upload a CSV file.');
-        return;
-    }
-
     this.isLoading.set(true);
     this.errorMessage.set(null);
     this.analysisResult.set(null);
-    this.chartsRendered = false;
 
-    const fileContent = await file.text();
-    
     try {
-      const projects = this.analysisService.parseCsv(fileContent);
-      if (projects.length === 0) {
+      if (await detectUploadKind(file) === 'json') {
+        const exported = parseAnalysisJson(await file.text());
+        this.parseReport.set(null);
+        this.currentImport.set(null);
+        this.session = null;
+        this.loadProjects(exported.projects, file.name);
+        return;
+      }
+
+      const preview = await this.csvWorker.preview(file);
+      if (preview.headers.length === 0) {
         throw new Error("CSV file is empty or could not be parsed.");
       }
-      const result = this.analysisService.analyzeData(projects);
-      this.analysisResult.set(result);
+
+      const signature = this.analysisService.headerSignature(preview.headers);
+      const savedMapping = this.columnMappings.getMapping(signature);
+      const mapping = savedMapping ?? this.analysisService.autoMapColumns(preview.headers);
+      const csvImport: CsvImport = { file, fileName: file.name, preview, mapping, locale: this.i18n.locale() };
+
+      // Ask the user to review the mapping when a column is unknown and no mapping was saved for this layout
+      const needsReview = !savedMapping && preview.headers.some((header, index) => header && !mapping[index] && !isEnrichmentHeader(header));
+      if (needsReview) {
+        this.pendingImport.set(csvImport);
+      } else {
+        await this.importFile(csvImport);
+      }
     } catch (error: any) {
-      this.errorMessage.set(`Error processing file: ${error.message}`);
+      if (error instanceof CsvImportCancelledError) return;
+      this.errorMessage.set(this.i18n.translate('errors.processingFile', { message: error.message }));
       this.analysisResult.set(null);
     } finally {
       this.isLoading.set(false);
@@ -107,29 +365,329 @@ export class AppComponent implements AfterViewInit {
     }
   }
 
-  async verifyProject(projectToVerify: Project): Promise<void> {
-    const currentResult = this.analysisResult();
-    if (!currentResult) return;
+  confirmColumnMapping(confirmation: ColumnMappingConfirmation): void {
+    const pending = this.pendingImport();
+    if (!pending) return;
+
+    if (confirmation.remember) {
+      this.columnMappings.saveMapping(this.analysisService.headerSignature(pending.preview.headers), confirmation.mapping);
+    }
+    this.pendingImport.set(null);
+    this.importFile({ ...pending, mapping: confirmation.mapping, locale: confirmation.locale });
+  }
+
+  cancelColumnMapping(): void {
+    this.pendingImport.set(null);
+  }
+
+  editColumnMapping(): void {
+    const currentImport = this.currentImport();
+    if (currentImport) {
+      this.pendingImport.set(currentImport);
+    }
+  }
+
+  cancelImport(): void {
+    this.csvWorker.cancel();
+  }
+
+  // Parses and analyzes the whole file in the worker
+  private async importFile(csvImport: CsvImport): Promise<void> {
+    this.isLoading.set(true);
+    try {
+      const { parse: { projects, ...parseReport }, result } = await this.csvWorker.import(csvImport.file, {
+        mapping: csvImport.mapping,
+        locale: csvImport.locale,
+        analysis: { profile: this.filterProfiles.activeProfile(), scoringModel: this.scoringModels.model(), today: new Date() },
+      });
+      this.parseReport.set(parseReport);
+      if (projects.length === 0 || !result) {
+        throw new Error("CSV file is empty or could not be parsed.");
+      }
+      // Re-mapping the same file keeps the current session, a new upload starts one
+      const remapped = this.currentImport()?.file === csvImport.file;
+      this.currentImport.set(csvImport);
+      if (!remapped) this.session = null;
+      this.loadProjects(projects, csvImport.fileName, result);
+    } catch (error: any) {
+      if (error instanceof CsvImportCancelledError) return;
+      this.errorMessage.set(this.i18n.translate('errors.processingFile', { message: error.message }));
+      this.analysisResult.set(null);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
 
-    // Set status to 'verifying' and update the signal for immediate UI feedback
-    this.updateProjectInSignal(projectToVerify.projectName, { verificationStatus: 'verifying' });
+  private loadProjects(
+    projects: Project[],
+    fileName: string,
+    result = this.analysisService.analyzeData(projects, this.parseReport()?.diagnostics, this.filterProfiles.activeProfile(), this.scoringModels.model())
+  ): void {
+    if (!this.session) {
+      this.session = { id: this.sessionHistory.createSessionId(), fileName, createdAt: new Date().toISOString() };
+    }
+    this.workflows.importFrom(projects);
+    this.rawProjects.set(projects);
+    this.analysisResult.set(result);
+    this.errorMessage.set(null);
+    this.applyCachedVerifications();
+  }
 
+  setForceIncluded(projectId: string, included: boolean): void {
     try {
-      const verificationData = await this.analysisService.verifyProject(projectToVerify);
-      // Update the project with the full verification results
-      this.updateProjectInSignal(projectToVerify.projectName, verificationData);
-    } catch (error) {
-      console.error("Verification failed", error);
-      // Update the project with a 'failed' status
-      this.updateProjectInSignal(projectToVerify.projectName, { verificationStatus: 'failed' });
+      this.filterProfiles.setForceIncluded(projectId, included);
+    } catch (error: any) {
+      this.errorMessage.set(this.i18n.translate('errors.updatingProfile', { message: error.message }));
     }
   }
+
+  toggleWorkflowEditor(projectId: string): void {
+    this.expandedWorkflow.update(current => current === projectId ? null : projectId);
+  }
+
+  verifyProject(projectToVerify: Project): void {
+    this.verificationQueue.enqueue([projectToVerify]);
+  }
+
+  verifyAll(): void {
+    const projects = this.visibleProjects();
+    this.verificationQueue.enqueue(projects.filter(p => p.verificationStatus !== 'verified'));
+  }
+
+  verifySelected(): void {
+    const selected = this.selectedProjects();
+    const projects = this.analysisResult()?.prioritizedProjects ?? [];
+    this.verificationQueue.enqueue(projects.filter(p => selected.has(p.id)));
+    this.selectedProjects.set(new Set());
+  }
+
+  toggleSelection(projectId: string, selected: boolean): void {
+    this.selectedProjects.update(current => {
+      const updated = new Set(current);
+      if (selected) {
+        updated.add(projectId);
+      } else {
+        updated.delete(projectId);
+      }
+      return updated;
+    });
+  }
+
+  toggleSelectAll(selected: boolean): void {
+    const projects = this.visibleProjects();
+    this.selectedProjects.set(selected ? new Set(projects.map(p => p.id)) : new Set());
+  }
+
+  allVisibleSelected(): boolean {
+    const selected = this.selectedProjects();
+    const projects = this.visibleProjects();
+    return projects.length > 0 && projects.every(p => selected.has(p.id));
+  }
+
+  setProjectQuery(query: ProjectQuery): void {
+    this.projectQuery.set(query);
+    this.page.set(0);
+  }
+
+  // Narrows the table, and with it the charts, to the chart element that was clicked
+  drillDown(changes: Partial<ProjectQuery>): void {
+    this.setProjectQuery({ ...this.projectQuery(), ...changes });
+    this.projectView.set('list');
+    document.getElementById('project-list')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  // Score buckets are labelled "7.x" and hold the scores from 7 up to 8
+  drillDownToScoreBucket(label: string): void {
+    const score = parseFloat(label);
+    if (!isNaN(score)) this.drillDown({ minScore: score, maxScore: score + 0.99 });
+  }
+
+  drillDownToLaunchStage(label: string): void {
+    const index = this.launchStageChart().findIndex(d => d.label === label);
+    const stage = this.viewSummary()?.launchStatusAnalysis[index];
+    if (stage) this.drillDown({ launchStages: [stage.label as LaunchStage] });
+  }
+
+  toggleSort(column: ProjectSortColumn): void {
+    const { sortBy, sortDirection } = this.projectQuery();
+    // Text columns start ascending, numeric columns start with the highest values
+    const firstDirection = ['projectName', 'categoryTags', 'launchStatus'].includes(column) ? 'asc' : 'desc';
+    this.setProjectQuery({
+      ...this.projectQuery(),
+      sortBy: column,
+      sortDirection: sortBy !== column ? firstDirection : sortDirection === 'asc' ? 'desc' : 'asc',
+    });
+  }
+
+  sortIndicator(column: ProjectSortColumn): string {
+    const { sortBy, sortDirection } = this.projectQuery();
+    return sortBy !== column ? '' : sortDirection === 'asc' ? '▲' : '▼';
+  }
+
+  setPageSize(size: string): void {
+    this.pageSize.set(parseInt(size, 10));
+    this.page.set(0);
+  }
+
+  private rescoreIfVerificationWeighted(): void {
+    const scoringModel = this.scoringModels.model();
+    if (!scoringModel.includeVerification) return;
+
+    this.analysisResult.update(currentResult => {
+      if (!currentResult) return null;
+      const prioritizedProjects = this.analysisService.prioritizeProjects(currentResult.prioritizedProjects, scoringModel);
+      return { ...currentResult, prioritizedProjects };
+    });
+  }
   
-  private updateProjectInSignal(projectName: string, updates: Partial<Project>): void {
+  async compareWithFile(file: File): Promise<void> {
+    try {
+      this.comparison.set({ name: file.name, projects: await this.readProjectsFile(file) });
+      this.errorMessage.set(null);
+    } catch (error: any) {
+      this.errorMessage.set(this.i18n.translate('errors.comparisonFile', { message: error.message }));
+    }
+  }
+
+  async compareWithSession(id: string): Promise<void> {
+    try {
+      const session = await this.sessionHistory.load(id);
+      if (!session) {
+        throw new Error('The session could not be found.');
+      }
+      // Raw rows carry no verification results, so take them from the session's analysis
+      const analyzed = new Map(session.result.prioritizedProjects.map(p => [p.id, p]));
+      const projects = session.rawProjects.map(p => {
+        const known = analyzed.get(p.id);
+        return known ? {
+          ...p,
+          verificationStatus: known.verificationStatus === 'verifying' ? 'unverified' as const : known.verificationStatus,
+          verificationSummary: known.verificationSummary,
+          verificationScore: known.verificationScore,
+          verificationDetails: known.verificationDetails,
+          verificationError: known.verificationError,
+          evidenceLinks: known.evidenceLinks,
+        } : p;
+      });
+      this.comparison.set({ name: `${session.fileName} (${new Date(session.createdAt).toLocaleString()})`, projects });
+      this.errorMessage.set(null);
+    } catch (error: any) {
+      this.errorMessage.set(this.i18n.translate('errors.comparisonSession', { message: error.message }));
+    }
+  }
+
+  // Reads a raw or exported CSV, or a JSON export, without going through the mapping step
+  private async readProjectsFile(file: File): Promise<Project[]> {
+    if (await detectUploadKind(file) === 'json') {
+      return parseAnalysisJson(await file.text()).projects;
+    }
+    const { headers } = await this.csvWorker.preview(file);
+    const mapping = this.columnMappings.getMapping(this.analysisService.headerSignature(headers))
+      ?? this.analysisService.autoMapColumns(headers);
+    const { parse: { projects } } = await this.csvWorker.import(file, { mapping, locale: this.i18n.locale() }, false);
+    if (projects.length === 0) {
+      throw new Error("CSV file is empty or could not be parsed.");
+    }
+    return projects;
+  }
+
+  async openSession(id: string): Promise<void> {
+    try {
+      const session = await this.sessionHistory.load(id);
+      if (!session) {
+        throw new Error('The session could not be found.');
+      }
+      this.resetAnalysis();
+      this.session = { id: session.id, fileName: session.fileName, createdAt: session.createdAt };
+      this.parseReport.set(session.parseReport);
+      this.rawProjects.set(session.rawProjects);
+      this.analysisResult.set(session.result);
+    } catch (error: any) {
+      this.errorMessage.set(this.i18n.translate('errors.openingSession', { message: error.message }));
+    }
+  }
+
+  private scheduleSessionSave(): void {
+    if (this.sessionSaveTimer) clearTimeout(this.sessionSaveTimer);
+    this.sessionSaveTimer = setTimeout(() => {
+      this.sessionSaveTimer = null;
+      const result = this.analysisResult();
+      const rawProjects = this.rawProjects();
+      if (!this.session || !result || !rawProjects) return;
+
+      // Projects still in flight are stored as unverified so a reopened session can verify them again
+      const prioritizedProjects = result.prioritizedProjects.map(p =>
+        p.verificationStatus === 'verifying' ? { ...p, verificationStatus: 'unverified' as const } : p
+      );
+      this.sessionHistory.save({
+        ...this.session,
+        updatedAt: new Date().toISOString(),
+        profileName: this.filterProfiles.activeProfile().name,
+        rawProjects,
+        result: { ...result, prioritizedProjects },
+        parseReport: this.parseReport(),
+      });
+    }, 1000);
+  }
+
+  private async applyCachedVerifications(): Promise<void> {
+    const projects = this.analysisResult()?.prioritizedProjects;
+    if (!projects) return;
+
+    const cached = await this.verificationCache.lookup(projects);
+    cached.forEach((updates, projectId) => this.updateProjectInSignal(projectId, updates));
+    if (cached.size > 0) {
+      this.rescoreIfVerificationWeighted();
+    }
+  }
+
+  duplicateReasons(reasons: DuplicateGroup['reasons']): string {
+    return reasons.map(reason => this.i18n.translate(`duplicates.reason.${reason}`)).join(' & ');
+  }
+
+  delimiterLabel(delimiter: string): string {
+    const name = { ',': 'comma', ';': 'semicolon', '\t': 'tab', '|': 'pipe' }[delimiter];
+    return name ? this.i18n.translate(`delimiter.${name}`) : delimiter;
+  }
+
+  private reanalyze(profile: FilterProfile, scoringModel: ScoringModel): void {
+    const projects = this.rawProjects();
+    if (!projects) return;
+
+    try {
+      const result = this.analysisService.analyzeData(projects, this.parseReport()?.diagnostics, profile, scoringModel);
+      // Keep verification results for projects that survive the new rules
+      const previous = new Map(this.analysisResult()?.prioritizedProjects.map(p => [p.id, p]) ?? []);
+      const merged = result.prioritizedProjects.map(p => {
+        const known = previous.get(p.id);
+        if (!known || known.verificationStatus === 'unverified') return p;
+        return {
+          ...p,
+          verificationStatus: known.verificationStatus,
+          verificationSummary: known.verificationSummary,
+          verificationScore: known.verificationScore,
+          verificationDetails: known.verificationDetails,
+          verificationError: known.verificationError,
+          evidenceLinks: known.evidenceLinks,
+          websiteCrawl: known.websiteCrawl,
+          injectionFlags: known.injectionFlags,
+        };
+      });
+      // Verification results can change the ranking when verification is a scoring factor
+      result.prioritizedProjects = this.analysisService.prioritizeProjects(merged, scoringModel);
+      this.analysisResult.set(result);
+      this.errorMessage.set(null);
+      this.applyCachedVerifications();
+    } catch (error: any) {
+      this.errorMessage.set(this.i18n.translate('errors.applyingProfile', { message: error.message }));
+    }
+  }
+
+  private updateProjectInSignal(projectId: string, updates: Partial<Project>): void {
     this.analysisResult.update(currentResult => {
       if (!currentResult) return null;
       
-      const projectIndex = currentResult.prioritizedProjects.findIndex(p => p.projectName === projectName);
+      const projectIndex = currentResult.prioritizedProjects.findIndex(p => p.id === projectId);
       if (projectIndex === -1) return currentResult;
 
       const updatedProjects = [...currentResult.prioritizedProjects];
@@ -141,136 +699,38 @@ export class AppComponent implements AfterViewInit {
 
 
   resetAnalysis(): void {
+    this.verificationQueue.reset();
+    this.selectedProjects.set(new Set());
+    this.projectQuery.set(DEFAULT_PROJECT_QUERY);
+    this.page.set(0);
+    this.comparison.set(null);
     this.analysisResult.set(null);
+    this.rawProjects.set(null);
+    this.parseReport.set(null);
+    this.pendingImport.set(null);
+    this.currentImport.set(null);
+    this.session = null;
     this.errorMessage.set(null);
     this.isLoading.set(false);
-    this.chartsRendered = false;
   }
 
-  exportToCsv(): void {
-    const projects = this.analysisResult()?.prioritizedProjects;
-    if (!projects || projects.length === 0) return;
-
-    const headers = Object.keys(projects[0]).join(',');
-    const rows = projects.map(p => {
-      // Custom serialization for complex objects
-      const values = Object.values(p).map(val => {
-        if (Array.isArray(val)) {
-          return `"${val.map(item => item.uri || item).join('; ')}"`;
-        }
-        if (typeof val === 'string' && val.includes(',')) {
-          return `"${val}"`;
-        }
-        return val;
-      });
-      return values.join(',');
+  exportProjects(format: ExportFormat): void {
+    const summary = this.viewSummary();
+    const projects = this.visibleProjects();
+    if (!summary || projects.length === 0) return;
+
+    this.exportService.export(format, {
+      title: 'Project AlphaAgent Outreach Report',
+      fileName: this.session?.fileName ?? 'upload',
+      profileName: this.filterProfiles.activeProfile().name,
+      generatedAt: new Date(),
+      summary,
+      projects: this.workflows.attach(projects),
+    }, {
+      'Top Categories': this.categoryChart?.serialize(),
+      'Launch Stage': this.statusChart?.serialize(),
+      'Potential Score Distribution': this.scoreChart?.serialize(),
+      'Source Platforms': this.sourceChart?.serialize(),
     });
-    const csvContent = `${headers}\n${rows.join('\n')}`;
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8,' });
-    // FIX: Changed `URL.ObjectURL` to `URL.createObjectURL` which is the correct static method.
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'alpha_filtered_projects.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }
-
-  private renderCharts(): void {
-    if (!this.analysisResult()) return;
-    this.renderBarChart(this.categoryChartContainer, this.analysisResult()!.categoryAnalysis, '#818cf8');
-    this.renderPieChart(this.statusChartContainer, this.analysisResult()!.launchStatusAnalysis);
-    this.renderBarChart(this.scoreChartContainer, this.analysisResult()!.potentialScoreDistribution, '#60a5fa');
-    this.chartsRendered = true;
-  }
-
-  private renderBarChart(elementRef: ElementRef, data: any[], color: string): void {
-    if (!elementRef || !data || data.length === 0) return;
-    const element = elementRef.nativeElement;
-    d3.select(element).select('svg').remove();
-
-    const margin = { top: 20, right: 20, bottom: 100, left: 40 };
-    const width = element.clientWidth - margin.left - margin.right;
-    const height = 300 - margin.top - margin.bottom;
-
-    const svg = d3.select(element).append('svg')
-        .attr('width', width + margin.left + margin.right)
-        .attr('height', height + margin.top + margin.bottom)
-      .append('g')
-        .attr('transform', `translate(${margin.left},${margin.top})`);
-    
-    const x = d3.scaleBand().range([0, width]).padding(0.1);
-    const y = d3.scaleLinear().range([height, 0]);
-    
-    x.domain(data.map(d => d.label));
-    y.domain([0, d3.max(data, d => d.value)]);
-    
-    svg.selectAll('.bar')
-        .data(data)
-      .enter().append('rect')
-        .attr('class', 'bar')
-        .attr('fill', color)
-        .attr('x', d => x(d.label))
-        .attr('width', x.bandwidth())
-        .attr('y', d => y(d.value))
-        .attr('height', d => height - y(d.value));
-
-    svg.append('g')
-        .attr('transform', `translate(0,${height})`)
-        .call(d3.axisBottom(x))
-        .selectAll('text')
-          .attr('fill', '#94a3b8')
-          .attr('transform', 'translate(-10,0)rotate(-45)')
-          .style('text-anchor', 'end');
-
-    svg.append('g')
-        .call(d3.axisLeft(y))
-        .selectAll('text')
-          .attr('fill', '#94a3b8');
-  }
-
-  private renderPieChart(elementRef: ElementRef, data: any[]): void {
-    if (!elementRef || !data || data.length === 0) return;
-    const element = elementRef.nativeElement;
-    d3.select(element).select('svg').remove();
-
-    const width = element.clientWidth;
-    const height = 300;
-    const radius = Math.min(width, height) / 2 - 10;
-    
-    const svg = d3.select(element).append('svg')
-        .attr('width', width)
-        .attr('height', height)
-      .append('g')
-        .attr('transform', `translate(${width / 2}, ${height / 2})`);
-
-    const color = d3.scaleOrdinal()
-      .domain(data.map(d => d.label))
-      .range(d3.schemeCategory10);
-      
-    const pie = d3.pie().value(d => d.value);
-    const data_ready = pie(data);
-
-    svg.selectAll('path')
-      .data(data_ready)
-      .enter()
-      .append('path')
-      .attr('d', d3.arc().innerRadius(0).outerRadius(radius))
-      .attr('fill', d => color(d.data.label))
-      .attr('stroke', '#1e293b')
-      .style('stroke-width', '2px');
-
-    svg.selectAll('text')
-      .data(data_ready)
-      .enter()
-      .append('text')
-      .text(d => d.data.label)
-      .attr('transform', d => `translate(${d3.arc().innerRadius(0).outerRadius(radius).centroid(d)})`)
-      .style('text-anchor', 'middle')
-      .style('font-size', 12)
-      .attr('fill', 'white');
   }
 }
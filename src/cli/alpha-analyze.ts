@@ -0,0 +1,354 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { CodedMessage, Project } from '../models/analysis.model';
+import { DEFAULT_FILTER_PROFILE, FilterProfile } from '../models/filter-profile.model';
+import { DEFAULT_SCORING_MODEL, ScoringModel } from '../models/scoring-model.model';
+import { LOCALES, Locale } from '../models/locale.model';
+import {
+  analyzeData, autoMapColumns, buildProjects, estimateCost, normalizeFilterProfile, normalizeScoringModel,
+  prioritizeProjects, readCsvBuffer, summarize, validateFilterProfile, validateScoringModel, verifyProject,
+} from '../core';
+import type { VerificationHooks } from '../core';
+import { createLlmProvider } from '../services/llm/create-llm-provider';
+import { DEFAULT_LLM_SETTINGS, KEYLESS_PROVIDERS, LLM_PROVIDER_LABELS, LlmProvider, LlmProviderId } from '../services/llm/llm-provider';
+import { VerificationError, toVerificationError } from '../services/verification-error';
+import { EXPORT_COLUMNS, exportRows } from '../services/export/export-columns';
+import { toCsv } from '../services/export/csv-writer';
+import { toAnalysisJson } from '../services/export/json-export';
+import { EN } from '../i18n/en';
+import { formatMessage } from '../i18n/format';
+
+export const EXIT_CODES = {
+  ok: 0,
+  // Unexpected failure
+  error: 1,
+  // Invalid command line arguments
+  usage: 2,
+  // The input file, profile or scoring model could not be read
+  input: 3,
+  // The results were written, but some projects could not be verified
+  verification: 4,
+};
+
+type OutputFormat = 'json' | 'csv';
+
+const HELP = `Usage: alpha-analyze [input.csv] [options]
+
+Analyzes a project CSV from the discovery agent and prints the prioritized projects.
+Reads the CSV from standard input when no file (or "-") is given.
+
+Options:
+  -p, --profile <file>      Filter profile JSON (default: the built-in Alpha Hunting profile)
+  -s, --scoring <file>      Scoring model JSON (default: the built-in scoring model)
+  -v, --verify <which>      Verify projects with the AI: none, all or top:N (default: none)
+  -o, --out <file>          Write the results to a file instead of standard output
+  -f, --format <format>     json or csv (default: taken from --out, otherwise json)
+  -l, --locale <locale>     ${LOCALES.join(' or ')}: number and date format of the input and language of
+                            verification summaries (default: en)
+      --provider <id>       ${Object.keys(LLM_PROVIDER_LABELS).join(', ')} (default: ${DEFAULT_LLM_SETTINGS.provider})
+      --model <name>        Model name (default: the provider's default model)
+      --base-url <url>      Endpoint of the openai-compatible provider
+      --concurrency <n>     Verification requests in flight at once (default: 2)
+      --attempts <n>        Attempts per project for rate-limit, server and network errors (default: 3)
+      --max-cost <usd>      Stop verifying once the estimated cost reaches this amount
+  -q, --quiet               Only print errors
+  -h, --help                Show this help
+
+The API key is read from ALPHA_API_KEY, or GEMINI_API_KEY / OPENAI_API_KEY for the provider in use.
+
+Exit codes: 0 success, 1 unexpected error, 2 invalid arguments, 3 unreadable input,
+4 results written but some projects could not be verified.`;
+
+class CliError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+  }
+}
+
+interface VerifyOptions {
+  llm: LlmProvider;
+  language: Locale;
+  concurrency: number;
+  attempts: number;
+  maxCostUsd: number | null;
+}
+
+let quiet = false;
+const log = (message: string) => { if (!quiet) process.stderr.write(`${message}\n`); };
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseCliArgs(argv);
+  if (values.help) {
+    process.stdout.write(`${HELP}\n`);
+    return EXIT_CODES.ok;
+  }
+  quiet = values.quiet ?? false;
+
+  const format = outputFormat(values.format, values.out);
+  const locale = localeOption(values.locale ?? 'en');
+  const verifyCount = verifyTarget(values.verify ?? 'none');
+  const profile = values.profile ? await loadProfile(values.profile) : structuredClone(DEFAULT_FILTER_PROFILE);
+  const scoringModel = values.scoring ? await loadScoringModel(values.scoring) : structuredClone(DEFAULT_SCORING_MODEL);
+  const verifyOptions = verifyCount === 0 ? null : {
+    llm: createProvider(values.provider, values.model, values['base-url']),
+    language: locale,
+    concurrency: positiveInteger(values.concurrency ?? '2', '--concurrency'),
+    attempts: positiveInteger(values.attempts ?? '3', '--attempts'),
+    maxCostUsd: values['max-cost'] === undefined ? null : positiveNumber(values['max-cost'], '--max-cost'),
+  };
+
+  const input = positionals[0] ?? '-';
+  const { projects: parsed, diagnostics, totalRows } = parseInput(await readInput(input), locale);
+  const rowErrors = diagnostics.filter(d => d.severity === 'error');
+  log(`Read ${totalRows} rows: ${parsed.length} projects, ${rowErrors.length} skipped, ${diagnostics.length - rowErrors.length} warnings.`);
+  rowErrors.slice(0, 5).forEach(d => log(`  line ${d.line}: ${english('csvIssue', d.reason)}`));
+
+  // Relative launch dates and the launch timeline are counted from the day of the run
+  const today = new Date();
+  const result = analyzeData(parsed, diagnostics, profile, scoringModel, today);
+  log(`${result.prioritizedProjects.length} projects passed the "${profile.name}" profile.`);
+  result.filterFunnel.forEach((step, i) => {
+    if (i > 0 && step.stage) log(`  ${english('audit.step', step.step)}: ${result.filterFunnel[i - 1].count - step.count} excluded`);
+  });
+
+  let projects = result.prioritizedProjects;
+  let failed = 0;
+  if (verifyOptions) {
+    const targets = projects.filter(p => p.verificationStatus !== 'verified').slice(0, verifyCount);
+    const updates = await verifyAll(targets, verifyOptions);
+    failed = targets.filter(p => updates.get(p.id)?.verificationStatus !== 'verified').length;
+    projects = prioritizeProjects(projects.map(p => ({ ...p, ...updates.get(p.id) })), scoringModel);
+  }
+
+  const output = format === 'csv'
+    ? toCsv(EXPORT_COLUMNS.map(column => column.header), exportRows(projects))
+    : toAnalysisJson({
+        exportedAt: new Date().toISOString(),
+        fileName: input === '-' ? 'stdin' : basename(input),
+        profileName: profile.name,
+        summaryStatistics: summarize(projects, today).summaryStatistics,
+        projects,
+      }) + '\n';
+  if (values.out) {
+    await writeFile(values.out, output, 'utf-8');
+    log(`Wrote ${projects.length} projects to ${values.out}.`);
+  } else {
+    process.stdout.write(output);
+  }
+
+  return failed > 0 ? EXIT_CODES.verification : EXIT_CODES.ok;
+}
+
+function parseCliArgs(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        profile: { type: 'string', short: 'p' },
+        scoring: { type: 'string', short: 's' },
+        verify: { type: 'string', short: 'v' },
+        out: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        locale: { type: 'string', short: 'l' },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        'base-url': { type: 'string' },
+        concurrency: { type: 'string' },
+        attempts: { type: 'string' },
+        'max-cost': { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new CliError((error as Error).message, EXIT_CODES.usage);
+  }
+}
+
+function outputFormat(format: string | undefined, out: string | undefined): OutputFormat {
+  const value = format ?? (out && extname(out).toLowerCase() === '.csv' ? 'csv' : 'json');
+  if (value !== 'json' && value !== 'csv') {
+    throw new CliError(`Unknown output format "${value}"; use json or csv.`, EXIT_CODES.usage);
+  }
+  return value;
+}
+
+function localeOption(value: string): Locale {
+  if (!LOCALES.includes(value as Locale)) {
+    throw new CliError(`Unknown locale "${value}"; use ${LOCALES.join(' or ')}.`, EXIT_CODES.usage);
+  }
+  return value as Locale;
+}
+
+// Number of projects to verify: 0 for none, Infinity for all
+function verifyTarget(value: string): number {
+  if (value === 'none') return 0;
+  if (value === 'all') return Infinity;
+  const match = value.match(/^top:(\d+)$/);
+  if (!match || parseInt(match[1], 10) === 0) {
+    throw new CliError(`Invalid --verify value "${value}"; use none, all or top:N.`, EXIT_CODES.usage);
+  }
+  return parseInt(match[1], 10);
+}
+
+function positiveInteger(value: string, option: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new CliError(`${option} must be a positive whole number.`, EXIT_CODES.usage);
+  }
+  return number;
+}
+
+function positiveNumber(value: string, option: string): number {
+  const number = Number(value);
+  if (isNaN(number) || number <= 0) {
+    throw new CliError(`${option} must be a positive number.`, EXIT_CODES.usage);
+  }
+  return number;
+}
+
+function createProvider(provider: string | undefined, model: string | undefined, baseUrl: string | undefined): LlmProvider {
+  const id = (provider ?? DEFAULT_LLM_SETTINGS.provider) as LlmProviderId;
+  if (!(id in LLM_PROVIDER_LABELS)) {
+    throw new CliError(`Unknown provider "${id}"; use ${Object.keys(LLM_PROVIDER_LABELS).join(', ')}.`, EXIT_CODES.usage);
+  }
+  const fallbackKey = id === 'gemini' ? process.env['GEMINI_API_KEY'] : id === 'openai-compatible' ? process.env['OPENAI_API_KEY'] : '';
+  const apiKey = process.env['ALPHA_API_KEY'] || fallbackKey || '';
+  if (!apiKey && !KEYLESS_PROVIDERS.includes(id)) {
+    throw new CliError(`No API key: set ALPHA_API_KEY to verify projects with the ${id} provider.`, EXIT_CODES.usage);
+  }
+  try {
+    return createLlmProvider({ provider: id, model: model ?? '', baseUrl: baseUrl ?? DEFAULT_LLM_SETTINGS.baseUrl }, apiKey);
+  } catch (error) {
+    throw new CliError((error as Error).message, EXIT_CODES.usage);
+  }
+}
+
+async function readJson<T>(path: string, what: string): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new CliError(`Could not read the ${what} ${path}: ${(error as Error).message}`, EXIT_CODES.input);
+  }
+}
+
+async function loadProfile(path: string): Promise<FilterProfile> {
+  const profile = normalizeFilterProfile({ name: basename(path, extname(path)), ...await readJson<object>(path, 'filter profile') });
+  const errors = validateFilterProfile(profile);
+  if (errors.length > 0) {
+    throw new CliError(`Invalid filter profile ${path}: ${errors.join(' ')}`, EXIT_CODES.input);
+  }
+  return profile;
+}
+
+async function loadScoringModel(path: string): Promise<ScoringModel> {
+  const model = normalizeScoringModel(await readJson<object>(path, 'scoring model'));
+  const errors = validateScoringModel(model);
+  if (errors.length > 0) {
+    throw new CliError(`Invalid scoring model ${path}: ${errors.join(' ')}`, EXIT_CODES.input);
+  }
+  return model;
+}
+
+async function readInput(path: string): Promise<Uint8Array> {
+  try {
+    if (path !== '-') return await readFile(path);
+    if (process.stdin.isTTY) {
+      throw new CliError('No input: pass a CSV file or pipe one to standard input. See --help.', EXIT_CODES.usage);
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  } catch (error) {
+    if (error instanceof CliError) throw error;
+    throw new CliError(`Could not read ${path}: ${(error as Error).message}`, EXIT_CODES.input);
+  }
+}
+
+// The CLI prints the core's coded messages with the English UI text
+function english(prefix: string, message: CodedMessage<string>): string {
+  const key = `${prefix}.${message.code}` as keyof typeof EN;
+  return formatMessage(EN[key] ?? message.code, message.params);
+}
+
+function parseInput(bytes: Uint8Array, locale: Locale) {
+  const table = readCsvBuffer(bytes);
+  try {
+    return buildProjects(table, autoMapColumns(table.headers), locale);
+  } catch (error) {
+    throw new CliError((error as Error).message, EXIT_CODES.input);
+  }
+}
+
+/**
+ * Verifies the projects with a fixed number of requests in flight, retrying rate-limit, server
+ * and network errors with exponential backoff. Returns the updates by
+ * project id; projects left over once the budget is reached have none.
+ */
+async function verifyAll(projects: Project[], options: VerifyOptions): Promise<Map<string, Partial<Project>>> {
+  const updates = new Map<string, Partial<Project>>();
+  const queue = [...projects];
+  let spentUsd = 0;
+  // Estimated cost of the requests in flight, so the workers running in parallel can't overshoot the budget together
+  let reservedUsd = 0;
+  let finished = 0;
+
+  const hooks: VerificationHooks = {
+    beforeRequest: (_model, estimatedCostUsd) => {
+      if (options.maxCostUsd !== null && spentUsd + reservedUsd >= options.maxCostUsd) {
+        throw new VerificationError(`The budget of $${options.maxCostUsd.toFixed(2)} has been reached.`, 'budget');
+      }
+      reservedUsd += estimatedCostUsd;
+    },
+    afterRequest: (model, estimatedCostUsd, response) => {
+      reservedUsd -= estimatedCostUsd;
+      if (response?.usage) spentUsd += estimateCost(model, response.usage);
+    },
+  };
+
+  const worker = async () => {
+    for (let project = queue.shift(); project; project = queue.shift()) {
+      let outcome: string;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const update = await verifyProject(options.llm, project, hooks, options.language);
+          updates.set(project.id, update);
+          outcome = `verified (${update.verificationScore})`;
+          break;
+        } catch (caught) {
+          const error = toVerificationError(caught);
+          if (error.retryable && attempt < options.attempts) {
+            await new Promise(resolve => setTimeout(resolve, 2000 * 2 ** (attempt - 1)));
+            continue;
+          }
+          if (error.kind === 'budget') {
+            // Leave the rest unverified instead of failing each of them
+            queue.length = 0;
+          } else {
+            updates.set(project.id, { verificationStatus: 'failed', verificationError: error.message });
+          }
+          outcome = `failed: ${error.message}`;
+          break;
+        }
+      }
+      log(`[${++finished}/${projects.length}] ${project.projectName}: ${outcome}`);
+    }
+  };
+
+  log(`Verifying ${projects.length} projects with ${options.llm.id} (${options.llm.model})…`);
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, projects.length) }, worker));
+  const verified = [...updates.values()].filter(update => update.verificationStatus === 'verified').length;
+  log(`Verified ${verified} of ${projects.length}; estimated cost $${spentUsd.toFixed(4)}.`);
+  return updates;
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    process.stderr.write(`alpha-analyze: ${error instanceof Error ? error.message : error}\n`);
+    process.exitCode = error instanceof CliError ? error.exitCode : EXIT_CODES.error;
+  }
+);
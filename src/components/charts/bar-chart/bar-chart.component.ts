@@ -0,0 +1,85 @@
+import { ChangeDetectionStrategy, Component, ElementRef, input, output, viewChild } from '@angular/core';
+import * as d3 from 'd3';
+import { ChartData } from '../../../models/analysis.model';
+import { D3Chart } from '../d3-chart';
+
+@Component({
+  selector: 'app-bar-chart',
+  templateUrl: './bar-chart.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  host: { class: 'relative block' },
+})
+export class BarChartComponent extends D3Chart {
+  data = input<ChartData[]>([]);
+  // Defaults to the theme's first series color
+  color = input<string | null>(null);
+  height = input(300);
+  // Unit shown in tooltips, e.g. "3 projects"
+  unit = input('projects');
+
+  barClick = output<ChartData>();
+
+  private canvasRef = viewChild<ElementRef<HTMLElement>>('canvas');
+
+  protected canvas(): HTMLElement | undefined {
+    return this.canvasRef()?.nativeElement;
+  }
+
+  protected draw(canvas: HTMLElement, totalWidth: number): void {
+    const data = this.data();
+    const theme = this.theme();
+    if (data.length === 0) {
+      d3.select(canvas).append('p').attr('class', 'text-sm text-slate-500').text(this.i18n.translate('charts.noData'));
+      return;
+    }
+
+    const margin = { top: 20, right: 20, bottom: 100, left: 40 };
+    const width = totalWidth - margin.left - margin.right;
+    const height = this.height() - margin.top - margin.bottom;
+    const total = d3.sum(data, d => d.value);
+
+    const svg = this.createSvg(canvas, totalWidth, this.height())
+      .append('g')
+        .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const x = d3.scaleBand().domain(data.map(d => d.label)).range([0, width]).padding(0.1);
+    const y = d3.scaleLinear().domain([0, d3.max(data, d => d.value) ?? 0]).nice().range([height, 0]);
+
+    svg.append('g')
+        .call(d3.axisLeft(y).ticks(5).tickSize(-width))
+        .call(axis => axis.select('.domain').remove())
+        .call(axis => axis.selectAll('line').attr('stroke', theme.grid))
+        .selectAll('text')
+          .attr('fill', theme.mutedText);
+
+    svg.selectAll('.bar')
+        .data(data)
+      .enter().append('rect')
+        .attr('fill', this.color() ?? theme.palette[0])
+        .attr('x', d => x(d.label) ?? 0)
+        .attr('width', x.bandwidth())
+        .attr('y', d => y(d.value))
+        .attr('height', d => height - y(d.value))
+        .attr('rx', 2)
+        .style('cursor', 'pointer')
+        .on('mousemove', (event: MouseEvent, d) => {
+          d3.select(event.currentTarget as SVGRectElement).attr('fill-opacity', 0.8);
+          this.showTooltip(event, `${d.label}\n${d.value} ${this.unit()} (${Math.round(d.value / total * 100)}%)`);
+        })
+        .on('mouseleave', (event: MouseEvent) => {
+          d3.select(event.currentTarget as SVGRectElement).attr('fill-opacity', 1);
+          this.hideTooltip();
+        })
+        .on('click', (_: MouseEvent, d) => this.barClick.emit(d));
+
+    svg.append('g')
+        .attr('transform', `translate(0,${height})`)
+        .call(d3.axisBottom(x).tickFormat(label => this.truncate(label, 16)))
+        .call(axis => axis.selectAll('line, .domain').attr('stroke', theme.grid))
+        .selectAll('text')
+          .attr('fill', theme.mutedText)
+          .attr('transform', 'translate(-10,0)rotate(-45)')
+          .style('text-anchor', 'end');
+  }
+}
@@ -0,0 +1,35 @@
+import { ChangeDetectionStrategy, Component, ElementRef, inject, input, viewChild } from '@angular/core';
+import { ExportService } from '../../../services/export.service';
+import { ChartTheme, DARK_CHART_THEME } from '../../../models/chart.model';
+import { TranslatePipe } from '../../../pipes/translate.pipe';
+
+// Dashboard panel around a chart, with SVG and PNG downloads of the chart it contains
+@Component({
+  selector: 'app-chart-card',
+  templateUrl: './chart-card.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [TranslatePipe],
+  host: { class: 'block' },
+})
+export class ChartCardComponent {
+  private exportService = inject(ExportService);
+
+  heading = input.required<string>();
+  // Shown under the title, e.g. how to drill down
+  hint = input('');
+  theme = input<ChartTheme>(DARK_CHART_THEME);
+
+  private body = viewChild.required<ElementRef<HTMLElement>>('body');
+
+  // The chart's SVG markup for the printable report
+  serialize(): string | undefined {
+    return this.exportService.serializeChart(this.body().nativeElement);
+  }
+
+  download(format: 'svg' | 'png'): void {
+    const baseName = `${this.heading().toLowerCase().replace(/[^a-z0-9]+/g, '_')}_${new Date().toISOString().substring(0, 10)}`;
+    this.exportService.exportChart(this.body().nativeElement, format, baseName, this.theme().background)
+      .catch(error => console.error('Could not export the chart.', error));
+  }
+}
@@ -0,0 +1,72 @@
+import { DestroyRef, Directive, ElementRef, afterNextRender, effect, inject, input, signal, untracked } from '@angular/core';
+import * as d3 from 'd3';
+import { ChartTheme, DARK_CHART_THEME } from '../../models/chart.model';
+import { I18nService } from '../../services/i18n.service';
+
+/**
+ * Base of the D3 chart components. Redraws the chart whenever one of the inputs read in
+ * `draw` changes or the canvas is resized, and shows a tooltip that follows the pointer.
+ */
+@Directive()
+export abstract class D3Chart {
+  theme = input<ChartTheme>(DARK_CHART_THEME);
+
+  protected readonly host: HTMLElement = inject<ElementRef<HTMLElement>>(ElementRef).nativeElement;
+  // Read while drawing, so switching the language redraws the chart
+  protected readonly i18n = inject(I18nService);
+  private readonly width = signal(0);
+  private tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+
+  constructor() {
+    const observer = new ResizeObserver(entries => this.width.set(Math.floor(entries[0].contentRect.width)));
+    afterNextRender(() => {
+      const canvas = this.canvas();
+      if (canvas) observer.observe(canvas);
+    });
+    inject(DestroyRef).onDestroy(() => observer.disconnect());
+
+    effect(() => {
+      const width = this.width();
+      const canvas = this.canvas();
+      if (width === 0 || !canvas) return;
+      d3.select(canvas).selectAll('*').remove();
+      untracked(() => this.hideTooltip());
+      this.draw(canvas, width);
+    });
+  }
+
+  // Element the chart is drawn into; emptied before every draw
+  protected abstract canvas(): HTMLElement | undefined;
+  protected abstract draw(canvas: HTMLElement, width: number): void;
+
+  // Root SVG element with the theme's font, so exported images look the same as on screen
+  protected createSvg(canvas: HTMLElement, width: number, height: number): d3.Selection<SVGSVGElement, unknown, null, undefined> {
+    return d3.select(canvas).append('svg')
+      .attr('width', width)
+      .attr('height', height)
+      .attr('font-family', 'ui-sans-serif, system-ui, sans-serif')
+      .attr('font-size', 12);
+  }
+
+  protected showTooltip(event: MouseEvent, text: string): void {
+    const [x, y] = d3.pointer(event, this.host);
+    this.tooltip ??= d3.select(this.host).append('div')
+      .attr('role', 'tooltip')
+      .attr('class', 'pointer-events-none absolute z-10 whitespace-pre rounded-md bg-slate-900/95 px-2 py-1 text-xs text-slate-100 shadow-lg ring-1 ring-slate-600');
+    // Kept on the side of the pointer that has more room
+    this.tooltip
+      .style('display', null)
+      .style('left', `${x}px`)
+      .style('top', `${y + 14}px`)
+      .style('transform', x > this.host.clientWidth / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)')
+      .text(text);
+  }
+
+  protected hideTooltip(): void {
+    this.tooltip?.style('display', 'none');
+  }
+
+  protected truncate(text: string, length: number): string {
+    return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+  }
+}
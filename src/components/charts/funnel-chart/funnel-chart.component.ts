@@ -0,0 +1,87 @@
+import { ChangeDetectionStrategy, Component, ElementRef, input, output, viewChild } from '@angular/core';
+import * as d3 from 'd3';
+import { FilterFunnelStep } from '../../../models/analysis.model';
+import { D3Chart } from '../d3-chart';
+
+// Horizontal bars of the projects left after each step, with the number each step dropped
+@Component({
+  selector: 'app-funnel-chart',
+  templateUrl: './funnel-chart.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  host: { class: 'relative block' },
+})
+export class FunnelChartComponent extends D3Chart {
+  steps = input<FilterFunnelStep[]>([]);
+
+  stepClick = output<FilterFunnelStep>();
+
+  private canvasRef = viewChild<ElementRef<HTMLElement>>('canvas');
+
+  protected canvas(): HTMLElement | undefined {
+    return this.canvasRef()?.nativeElement;
+  }
+
+  protected draw(canvas: HTMLElement, totalWidth: number): void {
+    const steps = this.steps();
+    const theme = this.theme();
+    if (steps.length === 0) {
+      d3.select(canvas).append('p').attr('class', 'text-sm text-slate-500').text(this.i18n.translate('charts.noData'));
+      return;
+    }
+
+    const rowHeight = 34;
+    const margin = { top: 4, right: 110, bottom: 4, left: 170 };
+    const width = totalWidth - margin.left - margin.right;
+    const height = steps.length * rowHeight;
+    const dropped = (i: number) => i === 0 ? 0 : steps[i - 1].count - steps[i].count;
+    const label = (s: FilterFunnelStep) => this.i18n.translateMessage('audit.step', s.step);
+
+    const svg = this.createSvg(canvas, totalWidth, height + margin.top + margin.bottom)
+      .append('g')
+        .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const x = d3.scaleLinear().domain([0, d3.max(steps, (s: FilterFunnelStep) => s.count) || 1]).range([0, width]);
+    const y = d3.scaleBand().domain(steps.map((_, i) => String(i))).range([0, height]).padding(0.2);
+
+    const rows = svg.selectAll('.step')
+        .data(steps)
+      .enter().append('g')
+        .attr('transform', (_: FilterFunnelStep, i: number) => `translate(0,${y(String(i))})`)
+        .style('cursor', (s: FilterFunnelStep) => s.stage ? 'pointer' : 'default')
+        .on('mousemove', (event: MouseEvent, s: FilterFunnelStep) => {
+          const i = steps.indexOf(s);
+          const share = steps[0].count > 0 ? Math.round(s.count / steps[0].count * 100) : 0;
+          this.showTooltip(event, `${label(s)}\n${this.i18n.translate('charts.funnelLeft', { count: s.count, share, first: label(steps[0]).toLowerCase() })}` +
+            (dropped(i) > 0 ? `\n${this.i18n.translate('charts.funnelDropped', { count: dropped(i) })}` : ''));
+        })
+        .on('mouseleave', () => this.hideTooltip())
+        .on('click', (_: MouseEvent, s: FilterFunnelStep) => { if (s.stage) this.stepClick.emit(s); });
+
+    rows.append('rect')
+        .attr('x', (s: FilterFunnelStep) => (width - x(s.count)) / 2)
+        .attr('width', (s: FilterFunnelStep) => Math.max(x(s.count), 1))
+        .attr('height', y.bandwidth())
+        .attr('rx', 3)
+        .attr('fill', (_: FilterFunnelStep, i: number) => theme.palette[i === steps.length - 1 ? 2 : 0])
+        .attr('fill-opacity', (_: FilterFunnelStep, i: number) => 1 - i * 0.08);
+
+    rows.append('text')
+        .attr('x', -10)
+        .attr('y', y.bandwidth() / 2)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'end')
+        .attr('fill', theme.text)
+        .text((s: FilterFunnelStep) => this.truncate(label(s), 26));
+
+    rows.append('text')
+        .attr('x', width + 10)
+        .attr('y', y.bandwidth() / 2)
+        .attr('dy', '0.35em')
+        .attr('fill', theme.text)
+        .text((s: FilterFunnelStep) => s.count)
+      .append('tspan')
+        .attr('fill', theme.mutedText)
+        .text((_: FilterFunnelStep, i: number) => dropped(i) > 0 ? `  −${dropped(i)}` : dropped(i) < 0 ? `  +${-dropped(i)}` : '');
+  }
+}
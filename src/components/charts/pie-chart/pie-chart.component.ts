@@ -0,0 +1,97 @@
+import { ChangeDetectionStrategy, Component, ElementRef, computed, input, output, viewChild } from '@angular/core';
+import * as d3 from 'd3';
+import { ChartData } from '../../../models/analysis.model';
+import { D3Chart } from '../d3-chart';
+
+type LegendItem = ChartData & { color: string; percent: number };
+
+// Donut chart with an HTML legend; slices are labelled with their share only when there is room
+@Component({
+  selector: 'app-pie-chart',
+  templateUrl: './pie-chart.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  host: { class: 'relative block' },
+})
+export class PieChartComponent extends D3Chart {
+  data = input<ChartData[]>([]);
+  height = input(260);
+  unit = input('projects');
+
+  sliceClick = output<ChartData>();
+
+  private canvasRef = viewChild<ElementRef<HTMLElement>>('canvas');
+
+  legend = computed((): LegendItem[] => {
+    const palette = this.theme().palette;
+    const total = this.data().reduce((sum, d) => sum + d.value, 0);
+    return this.data().map((d, i) => ({
+      ...d,
+      color: palette[i % palette.length],
+      percent: total > 0 ? Math.round(d.value / total * 100) : 0,
+    }));
+  });
+
+  protected canvas(): HTMLElement | undefined {
+    return this.canvasRef()?.nativeElement;
+  }
+
+  protected draw(canvas: HTMLElement, width: number): void {
+    const legend = this.legend();
+    const theme = this.theme();
+    if (legend.length === 0) {
+      d3.select(canvas).append('p').attr('class', 'text-sm text-slate-500').text(this.i18n.translate('charts.noData'));
+      return;
+    }
+
+    const height = this.height();
+    const radius = Math.min(width, height) / 2 - 10;
+    const arc = d3.arc<d3.PieArcDatum<LegendItem>>().innerRadius(radius * 0.55).outerRadius(radius);
+
+    const svg = this.createSvg(canvas, width, height)
+      .append('g')
+        .attr('transform', `translate(${width / 2},${height / 2})`);
+
+    const slices = d3.pie<LegendItem>().sort(null).value(d => d.value)(legend);
+
+    svg.selectAll('path')
+        .data(slices)
+      .enter().append('path')
+        .attr('d', arc)
+        .attr('fill', d => d.data.color)
+        .attr('stroke', theme.background)
+        .attr('stroke-width', 2)
+        .style('cursor', 'pointer')
+        .on('mousemove', (event: MouseEvent, d) => {
+          d3.select(event.currentTarget as SVGPathElement).attr('fill-opacity', 0.8);
+          this.showTooltip(event, `${d.data.label}\n${d.data.value} ${this.unit()} (${d.data.percent}%)`);
+        })
+        .on('mouseleave', (event: MouseEvent) => {
+          d3.select(event.currentTarget as SVGPathElement).attr('fill-opacity', 1);
+          this.hideTooltip();
+        })
+        .on('click', (_: MouseEvent, d) => this.sliceClick.emit({ label: d.data.label, value: d.data.value }));
+
+    svg.selectAll('text')
+        .data(slices.filter(d => d.endAngle - d.startAngle > 0.35))
+      .enter().append('text')
+        .attr('transform', d => `translate(${arc.centroid(d)})`)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'middle')
+        .attr('fill', theme.text)
+        .style('pointer-events', 'none')
+        .text(d => `${d.data.percent}%`);
+
+    svg.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dy', '0.35em')
+        .attr('fill', theme.text)
+        .attr('font-size', 20)
+        .attr('font-weight', 600)
+        .text(d3.sum(legend, d => d.value));
+  }
+
+  select(item: ChartData): void {
+    this.sliceClick.emit({ label: item.label, value: item.value });
+  }
+}
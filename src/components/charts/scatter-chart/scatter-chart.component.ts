@@ -0,0 +1,106 @@
+import { ChangeDetectionStrategy, Component, ElementRef, computed, input, output, viewChild } from '@angular/core';
+import * as d3 from 'd3';
+import { ScatterPoint } from '../../../models/chart.model';
+import { D3Chart } from '../d3-chart';
+
+@Component({
+  selector: 'app-scatter-chart',
+  templateUrl: './scatter-chart.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  host: { class: 'relative block' },
+})
+export class ScatterChartComponent extends D3Chart {
+  points = input<ScatterPoint[]>([]);
+  xLabel = input('');
+  yLabel = input('');
+  // Fixed axis ranges, e.g. [0, 100] for percentages; computed from the points otherwise
+  xDomain = input<[number, number] | null>(null);
+  yDomain = input<[number, number] | null>(null);
+  height = input(320);
+
+  pointClick = output<ScatterPoint>();
+
+  private canvasRef = viewChild<ElementRef<HTMLElement>>('canvas');
+
+  // Groups in order of first appearance, with their color
+  legend = computed(() => {
+    const palette = this.theme().palette;
+    const groups = [...new Set(this.points().map(p => p.group))];
+    return groups.map((group, i) => ({ group, color: palette[i % palette.length] }));
+  });
+
+  protected canvas(): HTMLElement | undefined {
+    return this.canvasRef()?.nativeElement;
+  }
+
+  protected draw(canvas: HTMLElement, totalWidth: number): void {
+    const points = this.points();
+    const theme = this.theme();
+    if (points.length === 0) {
+      d3.select(canvas).append('p').attr('class', 'text-sm text-slate-500').text(this.i18n.translate('charts.noData'));
+      return;
+    }
+
+    const margin = { top: 16, right: 20, bottom: 44, left: 52 };
+    const width = totalWidth - margin.left - margin.right;
+    const height = this.height() - margin.top - margin.bottom;
+    const colors = new Map(this.legend().map(entry => [entry.group, entry.color]));
+
+    const svg = this.createSvg(canvas, totalWidth, this.height())
+      .append('g')
+        .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const [minX = 0, maxX = 0] = d3.extent(points, (p: ScatterPoint) => p.x);
+    const x = d3.scaleLinear().domain(this.xDomain() ?? [minX, maxX]).nice().range([0, width]);
+    const y = d3.scaleLinear().domain(this.yDomain() ?? [0, d3.max(points, (p: ScatterPoint) => p.y) ?? 0]).nice().range([height, 0]);
+
+    svg.append('g')
+        .attr('transform', `translate(0,${height})`)
+        .call(d3.axisBottom(x).ticks(Math.max(2, Math.floor(width / 80))).tickSize(-height))
+        .call(axis => axis.selectAll('line, .domain').attr('stroke', theme.grid))
+        .selectAll('text')
+          .attr('fill', theme.mutedText);
+
+    svg.append('g')
+        .call(d3.axisLeft(y).ticks(5).tickSize(-width))
+        .call(axis => axis.selectAll('line, .domain').attr('stroke', theme.grid))
+        .selectAll('text')
+          .attr('fill', theme.mutedText);
+
+    svg.append('text')
+        .attr('x', width / 2)
+        .attr('y', height + 36)
+        .attr('text-anchor', 'middle')
+        .attr('fill', theme.mutedText)
+        .text(this.xLabel());
+
+    svg.append('text')
+        .attr('transform', 'rotate(-90)')
+        .attr('x', -height / 2)
+        .attr('y', -38)
+        .attr('text-anchor', 'middle')
+        .attr('fill', theme.mutedText)
+        .text(this.yLabel());
+
+    svg.selectAll('.point')
+        .data(points)
+      .enter().append('circle')
+        .attr('cx', (p: ScatterPoint) => x(p.x))
+        .attr('cy', (p: ScatterPoint) => y(p.y))
+        .attr('r', 5)
+        .attr('fill', (p: ScatterPoint) => colors.get(p.group) ?? theme.palette[0])
+        .attr('fill-opacity', 0.75)
+        .attr('stroke', theme.background)
+        .style('cursor', 'pointer')
+        .on('mousemove', (event: MouseEvent, p: ScatterPoint) => {
+          d3.select(event.currentTarget as SVGCircleElement).attr('r', 7);
+          this.showTooltip(event, `${p.label} (${p.group})\n${this.xLabel()}: ${p.x}\n${this.yLabel()}: ${p.y.toFixed(2)}`);
+        })
+        .on('mouseleave', (event: MouseEvent) => {
+          d3.select(event.currentTarget as SVGCircleElement).attr('r', 5);
+          this.hideTooltip();
+        })
+        .on('click', (_: MouseEvent, p: ScatterPoint) => this.pointClick.emit(p));
+  }
+}
@@ -0,0 +1,113 @@
+import { ChangeDetectionStrategy, Component, ElementRef, input, output, viewChild } from '@angular/core';
+import * as d3 from 'd3';
+import { LAUNCH_TIMELINE_WEEKS, LaunchTimelineEntry } from '../../../models/launch-lifecycle.model';
+import { periodEnd, timelineWindow, toIsoDate } from '../../../services/launch-status';
+import { D3Chart } from '../d3-chart';
+
+// One row per project; exact dates are dots, approximate ones (month, quarter...) are bars over their period
+@Component({
+  selector: 'app-timeline-chart',
+  templateUrl: './timeline-chart.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  host: { class: 'relative block' },
+})
+export class TimelineChartComponent extends D3Chart {
+  entries = input<LaunchTimelineEntry[]>([]);
+  weeks = input(LAUNCH_TIMELINE_WEEKS);
+
+  entryClick = output<LaunchTimelineEntry>();
+
+  private canvasRef = viewChild<ElementRef<HTMLElement>>('canvas');
+
+  protected canvas(): HTMLElement | undefined {
+    return this.canvasRef()?.nativeElement;
+  }
+
+  protected draw(canvas: HTMLElement, totalWidth: number): void {
+    const entries = this.entries();
+    const theme = this.theme();
+    if (entries.length === 0) {
+      d3.select(canvas).append('p')
+        .attr('class', 'text-sm text-slate-500')
+        .text(this.i18n.translate('charts.noLaunches', { weeks: this.weeks() }));
+      return;
+    }
+
+    const rowHeight = 22;
+    const margin = { top: 30, right: 20, bottom: 10, left: 160 };
+    const width = totalWidth - margin.left - margin.right;
+    const height = entries.length * rowHeight;
+    const { start, end } = timelineWindow(this.weeks());
+    const today = toIsoDate(new Date());
+    const toDate = (iso: string) => new Date(`${iso}T00:00:00`);
+    const accent = theme.palette[0];
+    const formatDay = d3.timeFormat('%b %d');
+
+    const svg = this.createSvg(canvas, totalWidth, height + margin.top + margin.bottom)
+      .append('g')
+        .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const x = d3.scaleTime().domain([start, end]).range([0, width]);
+    const y = d3.scaleBand().domain(entries.map(e => e.id)).range([0, height]).padding(0.3);
+
+    svg.append('g')
+        .call(d3.axisTop(x).ticks(d3.timeMonday.every(1)).tickFormat(date => formatDay(date as Date)).tickSize(-height))
+        .call(axis => axis.select('.domain').remove())
+        .call(axis => axis.selectAll('line').attr('stroke', theme.grid))
+        .selectAll('text')
+          .attr('fill', theme.mutedText);
+
+    svg.append('line')
+        .attr('x1', x(new Date())).attr('x2', x(new Date()))
+        .attr('y1', 0).attr('y2', height)
+        .attr('stroke', '#f472b6')
+        .attr('stroke-dasharray', '3,3');
+
+    svg.selectAll('.label')
+        .data(entries)
+      .enter().append('text')
+        .attr('x', -8)
+        .attr('y', (d: LaunchTimelineEntry) => (y(d.id) ?? 0) + y.bandwidth() / 2)
+        .attr('dy', '0.35em')
+        .attr('fill', theme.text)
+        .style('text-anchor', 'end')
+        .text((d: LaunchTimelineEntry) => this.truncate(d.projectName, 22));
+
+    const interactive = (
+      selection: d3.Selection<SVGRectElement | SVGCircleElement, LaunchTimelineEntry, SVGGElement, unknown>,
+      describe: (d: LaunchTimelineEntry) => string
+    ) => selection
+        .style('cursor', 'pointer')
+        .on('mousemove', (event: MouseEvent, d: LaunchTimelineEntry) => this.showTooltip(event, describe(d)))
+        .on('mouseleave', () => this.hideTooltip())
+        .on('click', (_: MouseEvent, d: LaunchTimelineEntry) => this.entryClick.emit(d));
+
+    svg.selectAll('.period')
+        .data(entries.filter(e => e.precision !== 'day'))
+      .enter().append('rect')
+        .attr('x', (d: LaunchTimelineEntry) => x(Math.max(+toDate(d.date), +start)))
+        .attr('width', (d: LaunchTimelineEntry) => {
+          const from = Math.max(+toDate(d.date), +start);
+          const to = Math.min(+toDate(periodEnd(d.date, d.precision)) + 86400000, +end);
+          return Math.max(x(to) - x(from), 2);
+        })
+        .attr('y', (d: LaunchTimelineEntry) => y(d.id) ?? 0)
+        .attr('height', y.bandwidth())
+        .attr('rx', 3)
+        .attr('fill', accent)
+        .attr('fill-opacity', 0.25)
+        .attr('stroke', accent)
+        .attr('stroke-dasharray', '4,2')
+        .call(interactive, (d: LaunchTimelineEntry) => `${d.projectName}\n${d.date} – ${periodEnd(d.date, d.precision)} (${d.precision})`);
+
+    svg.selectAll('.launch')
+        .data(entries.filter(e => e.precision === 'day'))
+      .enter().append('circle')
+        .attr('cx', (d: LaunchTimelineEntry) => x(toDate(d.date)))
+        .attr('cy', (d: LaunchTimelineEntry) => (y(d.id) ?? 0) + y.bandwidth() / 2)
+        .attr('r', 6)
+        .attr('fill', (d: LaunchTimelineEntry) => d.date < today ? theme.mutedText : '#34d399')
+        .call(interactive, (d: LaunchTimelineEntry) => `${d.projectName}\n${d.date}`);
+  }
+}
@@ -0,0 +1,77 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input, linkedSignal, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ColumnMapping, MAPPABLE_FIELDS, MappableField, REQUIRED_FIELDS } from '../../models/analysis.model';
+import { DATA_LOCALE_EXAMPLES, LOCALES, LOCALE_LABELS, Locale } from '../../models/locale.model';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { I18nService } from '../../services/i18n.service';
+
+export interface ColumnMappingConfirmation {
+  mapping: ColumnMapping;
+  remember: boolean;
+  // Number and date format of the file
+  locale: Locale;
+}
+
+@Component({
+  selector: 'app-column-mapping',
+  templateUrl: './column-mapping.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class ColumnMappingComponent {
+  headers = input.required<string[]>();
+  sampleRows = input<string[][]>([]);
+  initialMapping = input.required<ColumnMapping>();
+  fileName = input<string>('');
+  initialLocale = input<Locale>('en');
+
+  confirmed = output<ColumnMappingConfirmation>();
+  cancelled = output<void>();
+
+  private i18n = inject(I18nService);
+
+  readonly fields = MAPPABLE_FIELDS;
+  readonly requiredFields = REQUIRED_FIELDS;
+  readonly locales = LOCALES;
+  readonly localeLabels = LOCALE_LABELS;
+  readonly localeExamples = DATA_LOCALE_EXAMPLES;
+
+  mapping = linkedSignal(() => [...this.initialMapping()]);
+  remember = signal(true);
+  locale = linkedSignal(() => this.initialLocale());
+
+  missingRequired = computed(() => REQUIRED_FIELDS.filter(field => !this.mapping().includes(field)));
+
+  duplicateFields = computed(() => {
+    const assigned = this.mapping().filter((field): field is MappableField => field !== null);
+    return MAPPABLE_FIELDS.filter(field => assigned.filter(f => f === field).length > 1);
+  });
+
+  isValid = computed(() => this.missingRequired().length === 0 && this.duplicateFields().length === 0);
+
+  assign(index: number, value: string): void {
+    this.mapping.update(mapping => {
+      const updated = [...mapping];
+      updated[index] = value ? value as MappableField : null;
+      return updated;
+    });
+  }
+
+  fieldNames(fields: MappableField[]): string {
+    return fields.map(field => this.i18n.translate(`field.${field}`)).join(', ');
+  }
+
+  sampleValues(index: number): string {
+    return this.sampleRows()
+      .map(row => (row[index] ?? '').trim())
+      .filter(value => value.length > 0)
+      .map(value => value.length > 40 ? `${value.substring(0, 40)}…` : value)
+      .join(' · ');
+  }
+
+  confirm(): void {
+    if (!this.isValid()) return;
+    this.confirmed.emit({ mapping: this.mapping(), remember: this.remember(), locale: this.locale() });
+  }
+}
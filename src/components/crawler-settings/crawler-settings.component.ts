@@ -0,0 +1,24 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { WebsiteCrawlerService } from '../../services/website-crawler.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+@Component({
+  selector: 'app-crawler-settings',
+  templateUrl: './crawler-settings.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class CrawlerSettingsComponent {
+  crawler = inject(WebsiteCrawlerService);
+
+  toggle(enabled: boolean): void {
+    this.crawler.updateSettings({ enabled });
+    if (enabled) this.crawler.checkProxy();
+  }
+
+  updateProxyUrl(proxyUrl: string): void {
+    this.crawler.updateSettings({ proxyUrl });
+  }
+}
@@ -0,0 +1,82 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CodedMessage, ExcludedProject, ExclusionReasonCode, ExclusionStage, FilterFunnelStep } from '../../models/analysis.model';
+import { ChartCardComponent } from '../charts/chart-card/chart-card.component';
+import { FunnelChartComponent } from '../charts/funnel-chart/funnel-chart.component';
+import { I18nService } from '../../services/i18n.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+const PAGE_SIZE = 50;
+
+/**
+ * Shows how many projects each analysis step let through and lists every excluded project
+ * with the rule that dropped it. Excluded projects can be force-included into prioritization.
+ */
+@Component({
+  selector: 'app-filter-audit',
+  templateUrl: './filter-audit.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, ChartCardComponent, FunnelChartComponent, TranslatePipe],
+})
+export class FilterAuditComponent {
+  private readonly i18n = inject(I18nService);
+
+  funnel = input<FilterFunnelStep[]>([]);
+  excluded = input<ExcludedProject[]>([]);
+
+  forceInclude = output<string>();
+  undoForceInclude = output<string>();
+
+  isOpen = signal(false);
+  stageFilter = signal<ExclusionStage | null>(null);
+  search = signal('');
+  shown = signal(PAGE_SIZE);
+
+  // Rows that could not be parsed are named after their line in the file and give their CSV issue as the reason
+  entries = computed(() => this.excluded().map(entry => entry.stage === 'parse'
+    ? { ...entry, projectName: this.i18n.translate('audit.line', { line: entry.line }), reason: this.i18n.translateMessage('csvIssue', entry.reason) }
+    : { ...entry, reason: this.reasonText(entry.reason) }));
+
+  stageCounts = computed(() => {
+    const counts = new Map<ExclusionStage, number>();
+    this.entries().forEach(entry => counts.set(entry.stage, (counts.get(entry.stage) ?? 0) + 1));
+    return [...counts.entries()].map(([stage, count]) => ({ stage, count }));
+  });
+
+  filteredEntries = computed(() => {
+    const stage = this.stageFilter();
+    const terms = this.search().toLowerCase().split(/\s+/).filter(term => term.length > 0);
+    return this.entries().filter(entry => {
+      if (stage && entry.stage !== stage) return false;
+      const text = `${entry.projectName} ${entry.reason}`.toLowerCase();
+      return terms.every(term => text.includes(term));
+    });
+  });
+
+  visibleEntries = computed(() => this.filteredEntries().slice(0, this.shown()));
+  forcedCount = computed(() => this.excluded().filter(entry => entry.forceIncluded).length);
+
+  selectStage(stage: ExclusionStage | null): void {
+    this.stageFilter.set(stage);
+    this.shown.set(PAGE_SIZE);
+    this.isOpen.set(true);
+  }
+
+  updateSearch(search: string): void {
+    this.search.set(search);
+    this.shown.set(PAGE_SIZE);
+  }
+
+  showMore(): void {
+    this.shown.update(shown => shown + PAGE_SIZE);
+  }
+
+  private reasonText(reason: CodedMessage<ExclusionReasonCode>): string {
+    // The launch stage is passed by id
+    const params = reason.code === 'stage-not-allowed'
+      ? { ...reason.params, stage: this.i18n.translate(`launchStage.${reason.params?.['stage']}`) }
+      : reason.params;
+    return this.i18n.translate(`exclusionReason.${reason.code}`, params);
+  }
+}
@@ -0,0 +1,106 @@
+import { ChangeDetectionStrategy, Component, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FilterProfileService } from '../../services/filter-profile.service';
+import { DEFAULT_FILTER_PROFILE, FILTERABLE_FIELDS, FilterProfile, FilterRegexRule } from '../../models/filter-profile.model';
+import { LAUNCH_STAGES, LaunchStage } from '../../models/launch-lifecycle.model';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+type ListField = 'allowedStatusPatterns' | 'allowedCategories' | 'excludedCategories';
+
+@Component({
+  selector: 'app-filter-profile-editor',
+  templateUrl: './filter-profile-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class FilterProfileEditorComponent {
+  profileService = inject(FilterProfileService);
+
+  readonly filterableFields = FILTERABLE_FIELDS;
+  readonly defaultProfileId = DEFAULT_FILTER_PROFILE.id;
+  readonly launchStages = LAUNCH_STAGES;
+
+  isOpen = signal(false);
+  draft = signal<FilterProfile>(structuredClone(this.profileService.activeProfile()));
+  errors = signal<string[]>([]);
+
+  constructor() {
+    // Reload the draft whenever another profile is activated or saved
+    effect(() => {
+      this.draft.set(structuredClone(this.profileService.activeProfile()));
+      this.errors.set([]);
+    });
+  }
+
+  selectProfile(id: string): void {
+    this.profileService.setActiveProfile(id);
+  }
+
+  updateName(name: string): void {
+    this.draft.update(d => ({ ...d, name }));
+  }
+
+  updateMinScore(value: string): void {
+    this.draft.update(d => ({ ...d, minPotentialScore: parseFloat(value) }));
+  }
+
+  updateList(field: ListField, value: string): void {
+    const items = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    this.draft.update(d => ({ ...d, [field]: items }));
+  }
+
+  toggleStage(stage: LaunchStage, allowed: boolean): void {
+    this.draft.update(d => ({
+      ...d,
+      allowedStages: LAUNCH_STAGES.filter(s => s === stage ? allowed : d.allowedStages.includes(s)),
+    }));
+  }
+
+  addRule(): void {
+    this.draft.update(d => ({
+      ...d,
+      regexRules: [...d.regexRules, { field: 'rawDescription', pattern: '', action: 'exclude' }],
+    }));
+  }
+
+  updateRule(index: number, changes: Partial<FilterRegexRule>): void {
+    this.draft.update(d => ({
+      ...d,
+      regexRules: d.regexRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule),
+    }));
+  }
+
+  removeRule(index: number): void {
+    this.draft.update(d => ({ ...d, regexRules: d.regexRules.filter((_, i) => i !== index) }));
+  }
+
+  clearForceIncluded(): void {
+    this.draft.update(d => ({ ...d, forceIncludedIds: [] }));
+  }
+
+  save(): void {
+    const profile = { ...this.draft(), regexRules: this.draft().regexRules.filter(r => r.pattern.trim()) };
+    const errors = this.profileService.validateProfile(profile);
+    this.errors.set(errors);
+    if (errors.length === 0) {
+      this.profileService.saveProfile(profile);
+    }
+  }
+
+  saveAsNew(): void {
+    const errors = this.profileService.validateProfile(this.draft());
+    this.errors.set(errors);
+    if (errors.length === 0) {
+      this.profileService.createProfile(`${this.draft().name} (copy)`, this.draft());
+    }
+  }
+
+  deleteProfile(): void {
+    this.profileService.deleteProfile(this.draft().id);
+  }
+
+  resetDefault(): void {
+    this.profileService.resetDefaultProfile();
+  }
+}
@@ -0,0 +1,63 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Project } from '../../models/analysis.model';
+import { PIPELINE_STAGES, PipelineStage } from '../../models/workflow.model';
+import { ProjectWorkflowService } from '../../services/project-workflow.service';
+import { toIsoDate } from '../../services/launch-status';
+import { ProjectWorkflowComponent } from '../project-workflow/project-workflow.component';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+// Kanban view of the projects, one column per pipeline stage; cards keep the priority order
+@Component({
+  selector: 'app-pipeline-board',
+  templateUrl: './pipeline-board.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, ProjectWorkflowComponent, TranslatePipe],
+})
+export class PipelineBoardComponent {
+  workflows = inject(ProjectWorkflowService);
+
+  projects = input<Project[]>([]);
+
+  // Card whose workflow editor is open
+  editing = signal<string | null>(null);
+  dropTarget = signal<PipelineStage | null>(null);
+  private dragged: string | null = null;
+
+  readonly today = toIsoDate(new Date());
+
+  columns = computed(() => {
+    const workflows = this.workflows.workflows();
+    return PIPELINE_STAGES.map(stage => ({
+      stage,
+      projects: this.projects().filter(p => (workflows.get(p.id)?.stage ?? 'new') === stage),
+    }));
+  });
+
+  onDragStart(event: DragEvent, projectId: string): void {
+    this.dragged = projectId;
+    event.dataTransfer?.setData('text/plain', projectId);
+  }
+
+  onDragOver(event: DragEvent, stage: PipelineStage): void {
+    if (!this.dragged) return;
+    event.preventDefault();
+    this.dropTarget.set(stage);
+  }
+
+  onDrop(event: DragEvent, stage: PipelineStage): void {
+    event.preventDefault();
+    if (this.dragged) this.workflows.update(this.dragged, { stage });
+    this.onDragEnd();
+  }
+
+  onDragEnd(): void {
+    this.dragged = null;
+    this.dropTarget.set(null);
+  }
+
+  toggleEditor(projectId: string): void {
+    this.editing.update(current => current === projectId ? null : projectId);
+  }
+}
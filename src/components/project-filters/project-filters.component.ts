@@ -0,0 +1,67 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DEFAULT_PROJECT_QUERY, ProjectFacets, ProjectQuery } from '../../models/project-query.model';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { I18nService } from '../../services/i18n.service';
+
+type FacetKey = keyof Pick<ProjectQuery, 'categories' | 'launchStages' | 'verificationStatuses' | 'sourcePlatforms'>;
+
+@Component({
+  selector: 'app-project-filters',
+  templateUrl: './project-filters.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class ProjectFiltersComponent {
+  private readonly i18n = inject(I18nService);
+
+  query = input.required<ProjectQuery>();
+  facets = input.required<ProjectFacets>();
+
+  queryChange = output<ProjectQuery>();
+
+  readonly facetSections: { key: FacetKey; label: string }[] = [
+    { key: 'categories', label: 'filters.category' },
+    { key: 'launchStages', label: 'filters.launchStage' },
+    { key: 'verificationStatuses', label: 'filters.verification' },
+    { key: 'sourcePlatforms', label: 'filters.source' },
+  ];
+
+  isFiltered = computed(() => {
+    const query = this.query();
+    return query.search.trim() !== '' || query.minScore !== null || query.maxScore !== null ||
+      this.facetSections.some(section => query[section.key].length > 0);
+  });
+
+  // Launch stage and verification options carry the raw id
+  optionLabel(key: FacetKey, label: string): string {
+    if (key === 'launchStages') return this.i18n.translate('launchStage.' + label);
+    if (key === 'verificationStatuses') return this.i18n.translate('verificationStatus.' + label);
+    return label;
+  }
+
+  updateSearch(search: string): void {
+    this.emit({ search });
+  }
+
+  toggleFacet(key: FacetKey, value: string, checked: boolean): void {
+    const current: string[] = this.query()[key];
+    const updated = checked ? [...current, value] : current.filter(v => v !== value);
+    this.emit({ [key]: updated });
+  }
+
+  updateScore(bound: 'minScore' | 'maxScore', value: string): void {
+    const score = parseFloat(value);
+    this.emit({ [bound]: isNaN(score) ? null : score });
+  }
+
+  clearFilters(): void {
+    const { sortBy, sortDirection } = this.query();
+    this.queryChange.emit({ ...DEFAULT_PROJECT_QUERY, sortBy, sortDirection });
+  }
+
+  private emit(changes: Partial<ProjectQuery>): void {
+    this.queryChange.emit({ ...this.query(), ...changes });
+  }
+}
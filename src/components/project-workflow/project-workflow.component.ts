@@ -0,0 +1,50 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ProjectWorkflowService } from '../../services/project-workflow.service';
+import { PIPELINE_STAGES, PipelineStage } from '../../models/workflow.model';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+@Component({
+  selector: 'app-project-workflow',
+  templateUrl: './project-workflow.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class ProjectWorkflowComponent {
+  workflows = inject(ProjectWorkflowService);
+
+  projectId = input.required<string>();
+
+  workflow = computed(() => this.workflows.get(this.projectId()));
+
+  readonly stages = PIPELINE_STAGES;
+
+  setStage(stage: string): void {
+    this.workflows.update(this.projectId(), { stage: stage as PipelineStage });
+  }
+
+  setAssignee(assignee: string): void {
+    this.workflows.update(this.projectId(), { assignee: assignee.trim() });
+  }
+
+  setFollowUpDate(date: string): void {
+    this.workflows.update(this.projectId(), { followUpDate: date || null });
+  }
+
+  addTags(input: HTMLInputElement): void {
+    const added = input.value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+    input.value = '';
+    if (added.length === 0) return;
+    this.workflows.update(this.projectId(), { tags: [...new Set([...this.workflow().tags, ...added])] });
+  }
+
+  removeTag(tag: string): void {
+    this.workflows.update(this.projectId(), { tags: this.workflow().tags.filter(t => t !== tag) });
+  }
+
+  addNote(textarea: HTMLTextAreaElement): void {
+    this.workflows.addNote(this.projectId(), textarea.value);
+    textarea.value = '';
+  }
+}
@@ -0,0 +1,61 @@
+import { ChangeDetectionStrategy, Component, computed, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AnalysisDiff } from '../../models/analysis-diff.model';
+import { AnalysisSessionSummary } from '../../services/session-history.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+type DiffTab = 'added' | 'removed' | 'scores' | 'launch' | 'verification';
+
+@Component({
+  selector: 'app-run-diff',
+  templateUrl: './run-diff.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class RunDiffComponent {
+  diff = input<AnalysisDiff | null>(null);
+  // Saved sessions that can serve as the baseline
+  sessions = input<AnalysisSessionSummary[]>([]);
+
+  compareFile = output<File>();
+  compareSession = output<string>();
+  cleared = output<void>();
+
+  activeTab = signal<DiffTab>('added');
+
+  scoreChanges = computed(() => this.diff()?.changed.filter(c => c.potentialScoreDelta !== 0 || Math.abs(c.priorityScoreDelta) >= 0.005) ?? []);
+  launchTransitions = computed(() => this.diff()?.changed.filter(c => c.launchStatus) ?? []);
+  verificationChanges = computed(() => this.diff()?.changed.filter(c => c.verificationStatus) ?? []);
+
+  tabs = computed(() => {
+    const diff = this.diff();
+    return [
+      { id: 'added' as const, label: 'diff.tab.added', count: diff?.added.length ?? 0 },
+      { id: 'removed' as const, label: 'diff.tab.removed', count: diff?.removed.length ?? 0 },
+      { id: 'scores' as const, label: 'diff.tab.scores', count: this.scoreChanges().length },
+      { id: 'launch' as const, label: 'diff.tab.launch', count: this.launchTransitions().length },
+      { id: 'verification' as const, label: 'diff.tab.verification', count: this.verificationChanges().length },
+    ];
+  });
+
+  readonly summaryLabels: { key: keyof AnalysisDiff['summaryDelta']; label: string }[] = [
+    { key: 'totalProjects', label: 'diff.summary.totalProjects' },
+    { key: 'averagePotentialScore', label: 'diff.summary.averagePotentialScore' },
+    { key: 'highPotentialProjects', label: 'diff.summary.highPotentialProjects' },
+    { key: 'mediumPotentialProjects', label: 'diff.summary.mediumPotentialProjects' },
+    { key: 'upcomingProjects', label: 'diff.summary.upcomingProjects' },
+  ];
+
+  onFileChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (input.files?.length) {
+      this.compareFile.emit(input.files[0]);
+    }
+    input.value = '';
+  }
+
+  signed(value: number): string {
+    return value > 0 ? `+${value}` : `${value}`;
+  }
+}
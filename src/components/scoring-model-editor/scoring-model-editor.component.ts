@@ -0,0 +1,87 @@
+import { ChangeDetectionStrategy, Component, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ScoringModelService } from '../../services/scoring-model.service';
+import { PRIORITY_FACTORS, PriorityFactor, ScoreTier, ScoringModel } from '../../models/scoring-model.model';
+import { LAUNCH_STAGES, LaunchStage } from '../../models/launch-lifecycle.model';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+type TierTable = 'categoryTiers';
+type NumericField = 'defaultCategoryScore' | 'unverifiedScore';
+
+@Component({
+  selector: 'app-scoring-model-editor',
+  templateUrl: './scoring-model-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class ScoringModelEditorComponent {
+  private scoringService = inject(ScoringModelService);
+
+  readonly factors = PRIORITY_FACTORS;
+  readonly launchStages = LAUNCH_STAGES;
+
+  isOpen = signal(false);
+  draft = signal<ScoringModel>(structuredClone(this.scoringService.model()));
+  errors = signal<string[]>([]);
+
+  constructor() {
+    effect(() => {
+      this.draft.set(structuredClone(this.scoringService.model()));
+      this.errors.set([]);
+    });
+  }
+
+  updateWeight(factor: PriorityFactor, value: string): void {
+    this.draft.update(d => ({ ...d, weights: { ...d.weights, [factor]: parseFloat(value) } }));
+  }
+
+  updateNumber(field: NumericField, value: string): void {
+    this.draft.update(d => ({ ...d, [field]: parseFloat(value) }));
+  }
+
+  updateStageScore(stage: LaunchStage, value: string): void {
+    this.draft.update(d => ({ ...d, launchStageScores: { ...d.launchStageScores, [stage]: parseFloat(value) } }));
+  }
+
+  toggleVerification(includeVerification: boolean): void {
+    this.draft.update(d => ({ ...d, includeVerification }));
+  }
+
+  addTier(table: TierTable): void {
+    this.draft.update(d => ({ ...d, [table]: [...d[table], { match: [], score: 5 }] }));
+  }
+
+  updateTier(table: TierTable, index: number, changes: Partial<ScoreTier>): void {
+    this.draft.update(d => ({
+      ...d,
+      [table]: d[table].map((tier, i) => i === index ? { ...tier, ...changes } : tier),
+    }));
+  }
+
+  updateTierKeywords(table: TierTable, index: number, value: string): void {
+    const match = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    this.updateTier(table, index, { match });
+  }
+
+  updateTierScore(table: TierTable, index: number, value: string): void {
+    this.updateTier(table, index, { score: parseFloat(value) });
+  }
+
+  removeTier(table: TierTable, index: number): void {
+    this.draft.update(d => ({ ...d, [table]: d[table].filter((_, i) => i !== index) }));
+  }
+
+  save(): void {
+    const model = this.draft();
+    const errors = this.scoringService.validateModel(model);
+    this.errors.set(errors);
+    if (errors.length === 0) {
+      this.scoringService.saveModel(model);
+    }
+  }
+
+  reset(): void {
+    this.scoringService.resetModel();
+  }
+}
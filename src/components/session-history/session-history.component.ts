@@ -0,0 +1,34 @@
+import { ChangeDetectionStrategy, Component, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SessionHistoryService } from '../../services/session-history.service';
+import { VerificationCacheService } from '../../services/verification-cache.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+@Component({
+  selector: 'app-session-history',
+  templateUrl: './session-history.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class SessionHistoryComponent {
+  history = inject(SessionHistoryService);
+  cache = inject(VerificationCacheService);
+
+  opened = output<string>();
+
+  cacheCleared = signal(false);
+
+  async deleteSession(id: string): Promise<void> {
+    await this.history.delete(id);
+  }
+
+  updateTtl(value: string): void {
+    this.cache.setTtlDays(parseFloat(value));
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+    this.cacheCleared.set(true);
+  }
+}
@@ -0,0 +1,17 @@
+import { ChangeDetectionStrategy, Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SourcePlatformStats } from '../../models/source-platform.model';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+@Component({
+  selector: 'app-source-analysis',
+  templateUrl: './source-analysis.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class SourceAnalysisComponent {
+  stats = input<SourcePlatformStats[]>([]);
+
+  sourceSelected = output<string>();
+}
@@ -0,0 +1,40 @@
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { LlmUsageService } from '../../services/llm-usage.service';
+import { EMPTY_USAGE_TOTALS, UsageBudget, UsageTotals } from '../../models/llm-usage.model';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+@Component({
+  selector: 'app-usage-panel',
+  templateUrl: './usage-panel.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class UsagePanelComponent {
+  usage = inject(LlmUsageService);
+
+  showModels = signal(false);
+
+  // Session and today's totals for every model used in either, most expensive first
+  readonly modelRows = computed(() => {
+    const ledger = this.usage.ledger();
+    const today = ledger.days[this.usage.today()] ?? {};
+    const models = [...new Set([...Object.keys(ledger.session), ...Object.keys(today)])];
+    return models
+      .map(model => ({
+        model,
+        session: ledger.session[model] ?? EMPTY_USAGE_TOTALS,
+        today: today[model] ?? EMPTY_USAGE_TOTALS,
+      }))
+      .sort((a, b) => b.session.costUsd - a.session.costUsd || a.model.localeCompare(b.model));
+  });
+
+  totalTokens(totals: UsageTotals): number {
+    return totals.promptTokens + totals.responseTokens + totals.groundingTokens;
+  }
+
+  updateLimit(field: keyof UsageBudget, value: string): void {
+    this.usage.setBudget({ [field]: value.trim() === '' ? null : parseFloat(value) });
+  }
+}
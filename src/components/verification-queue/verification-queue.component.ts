@@ -0,0 +1,34 @@
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { VerificationQueueService } from '../../services/verification-queue.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+@Component({
+  selector: 'app-verification-queue',
+  templateUrl: './verification-queue.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+})
+export class VerificationQueueComponent {
+  queue = inject(VerificationQueueService);
+
+  showItems = signal(false);
+
+  percentComplete = computed(() => {
+    const { total, pending } = this.queue.progress();
+    return total === 0 ? 0 : Math.round(((total - pending) / total) * 100);
+  });
+
+  updateConcurrency(value: string): void {
+    this.queue.updateSettings({ concurrency: parseInt(value, 10) });
+  }
+
+  updateMaxAttempts(value: string): void {
+    this.queue.updateSettings({ maxAttempts: parseInt(value, 10) });
+  }
+
+  secondsUntil(retryAt?: number): number {
+    return retryAt ? Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)) : 0;
+  }
+}
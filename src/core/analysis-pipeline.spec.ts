@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv-import';
+import { analyzeData } from './analysis-pipeline';
+import { DEFAULT_FILTER_PROFILE } from '../models/filter-profile.model';
+import { DEFAULT_SCORING_MODEL } from '../models/scoring-model.model';
+
+const HEADER = 'Project Name,Website,Source,Categories,Launch Status,Description,Potential Score,Analyst Note';
+
+// The same project found on two sources, plus one that only X found and the filters drop
+const ROWS = [
+  'Foo Protocol,https://foo.example,X,DeFi,Live,A lending protocol.,8,',
+  'Foo Protocol,https://www.foo.example/,DappRadar,DeFi,Live,A lending protocol on Base.,7,',
+  'Bar Finance,https://bar.example,X,DeFi,Live,A swap.,2,',
+];
+
+function analyze(rows: string[]) {
+  const { projects, diagnostics } = parseCsv(`${HEADER}\n${rows.join('\n')}\n`);
+  return analyzeData(projects, diagnostics, DEFAULT_FILTER_PROFILE, DEFAULT_SCORING_MODEL, new Date('2025-06-01'));
+}
+
+describe('analyzeData source analytics', () => {
+  it('credits a duplicate merged across sources to each of them', () => {
+    const result = analyze(ROWS);
+
+    expect(result.prioritizedProjects).toHaveLength(1);
+    expect(result.sourceAnalysis.map(s => [s.source, s.rawCount, s.passedCount])).toEqual([
+      ['X', 2, 1],
+      ['DappRadar', 1, 1],
+    ]);
+  });
+
+  it('never shows the merged sources as a source of their own', () => {
+    const result = analyze(ROWS);
+
+    expect(result.sourcePlatformAnalysis.map(d => d.label).sort()).toEqual(['DappRadar', 'X']);
+    expect(result.sourceAnalysis.some(s => s.source.includes(','))).toBe(false);
+  });
+});
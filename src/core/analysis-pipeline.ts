@@ -0,0 +1,331 @@
+import { Project, AnalysisResult, ProjectSummary, ChartData, SummaryStatistics, CodedMessage, CsvParseDiagnostic, ExcludedProject, ExclusionReasonCode, ExclusionStage, FilterFunnelStep, FunnelStepCode } from '../models/analysis.model';
+import { SourcePlatformStats } from '../models/source-platform.model';
+import { FilterProfile } from '../models/filter-profile.model';
+import { PriorityBreakdownItem, PriorityFactor, ScoreTier, ScoringModel } from '../models/scoring-model.model';
+import { LAUNCH_STAGES, LAUNCH_TIMELINE_WEEKS, LaunchTimelineEntry } from '../models/launch-lifecycle.model';
+import { deduplicateProjects } from '../services/project-dedup';
+import { inspectProject } from '../services/prompt-safety';
+import { categoryGroup, matchesCategory, normalizeCategories } from '../services/category-taxonomy';
+import { normalizeLaunchStatus, periodEnd, timelineWindow, toIsoDate } from '../services/launch-status';
+import { sourcePlatformsOf } from '../services/source-platform';
+
+/**
+ * Cleans, deduplicates, classifies, filters and prioritizes the parsed projects. Pure: the
+ * same input, profile, scoring model and `today` always give the same result; relative launch
+ * dates and the launch timeline are counted from `today`. The rows the parser rejected, taken
+ * from its diagnostics, are listed first among the excluded projects.
+ */
+export function analyzeData(
+  projects: Project[],
+  diagnostics: CsvParseDiagnostic[],
+  profile: FilterProfile,
+  scoringModel: ScoringModel,
+  today: Date
+): AnalysisResult {
+  const cleanedProjects = cleanData(projects);
+  const { projects: uniqueProjects, groups: duplicateGroups } = deduplicateProjects(cleanedProjects);
+  const classifiedProjects = uniqueProjects.map(project => classifyProject(project, today));
+  const filtered = applyAlphaHuntingFilters(classifiedProjects, profile);
+  const prioritizedProjects = prioritizeProjects(filtered.passed, scoringModel);
+  const parseErrors: ExcludedProject[] = diagnostics
+    .filter(d => d.severity === 'error')
+    .map(d => ({ projectName: `Line ${d.line}`, stage: 'parse', reason: d.reason, line: d.line, forceIncluded: false }));
+  // The unparseable rows come before the imported ones
+  const importFunnel: FilterFunnelStep[] = parseErrors.length > 0
+    ? [{ step: { code: 'rows-in-file' }, count: projects.length + parseErrors.length }, { step: { code: 'imported' }, count: projects.length, stage: 'parse' }]
+    : [{ step: { code: 'imported' }, count: projects.length }];
+
+  return {
+    ...summarize(prioritizedProjects, today),
+    prioritizedProjects,
+    duplicateGroups,
+    sourceAnalysis: analyzeSourcePlatforms(projects, prioritizedProjects),
+    excludedProjects: [...parseErrors, ...filtered.excluded],
+    filterFunnel: [
+      ...importFunnel,
+      { step: { code: 'unique' }, count: uniqueProjects.length },
+      ...filtered.funnel,
+    ],
+  };
+}
+
+/**
+ * Compares each discovery source's uploaded rows with the projects that passed the filters,
+ * so sources whose leads rarely survive or fail verification stand out. A passed project merged
+ * from duplicates on several sources is credited to each of them.
+ */
+export function analyzeSourcePlatforms(rawProjects: Project[], passedProjects: Project[]): SourcePlatformStats[] {
+  const bySource = (projects: Project[]) => {
+    const groups = new Map<string, Project[]>();
+    projects.forEach(p => sourcePlatformsOf(p).forEach(key => {
+      const group = groups.get(key);
+      if (group) group.push(p);
+      else groups.set(key, [p]);
+    }));
+    return groups;
+  };
+  const raw = bySource(rawProjects);
+  const passed = bySource(passedProjects);
+  const average = (values: number[]) => values.length > 0 ? Number((values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(2)) : null;
+
+  return [...raw.entries()]
+    .map(([source, rows]) => {
+      const survivors = passed.get(source) ?? [];
+      const verifiedCount = survivors.filter(p => p.verificationStatus === 'verified').length;
+      const failedCount = survivors.filter(p => p.verificationStatus === 'failed').length;
+      return {
+        source,
+        rawCount: rows.length,
+        passedCount: survivors.length,
+        passRate: survivors.length / rows.length,
+        averagePotentialScore: average(rows.map(p => Number(p.potentialScore) || 0)) ?? 0,
+        averagePriorityScore: average(survivors.map(p => p.priorityScore ?? 0)),
+        verifiedCount,
+        failedCount,
+        verificationSuccessRate: verifiedCount + failedCount > 0 ? verifiedCount / (verifiedCount + failedCount) : null,
+      };
+    })
+    .sort((a, b) => b.rawCount - a.rawCount || a.source.localeCompare(b.source));
+}
+
+// Statistics and chart data for any subset of the analyzed projects, e.g. the filtered table view
+export function summarize(projects: Project[], today: Date): ProjectSummary {
+  return {
+    summaryStatistics: generateSummaryStats(projects),
+    categoryAnalysis: analyzeCategories(projects),
+    launchStatusAnalysis: analyzeLaunchStatus(projects),
+    potentialScoreDistribution: analyzePotentialScores(projects),
+    sourcePlatformAnalysis: countSourcePlatforms(projects),
+    launchTimeline: buildLaunchTimeline(projects, today),
+  };
+}
+
+export function prioritizeProjects(projects: Project[], model: ScoringModel): Project[] {
+  const prioritized = projects.map(p => {
+    const priorityBreakdown = calculatePriorityBreakdown(p, model);
+    const priorityScore = priorityBreakdown.reduce((sum, item) => sum + item.contribution, 0);
+    return { ...p, priorityScore, priorityBreakdown };
+  });
+
+  return prioritized.sort((a, b) => (b.priorityScore || 0) - (a.priorityScore || 0));
+}
+
+function cleanData(projects: Project[]): Project[] {
+  return projects.map(p => ({
+    ...p,
+    websiteUrl: cleanUrl(p.websiteUrl),
+    categoryTags: cleanCategories(p.categoryTags),
+    potentialScore: !isNaN(p.potentialScore) ? p.potentialScore : 0
+  }));
+}
+
+// Runs after duplicates are merged, so the derived fields reflect the merged tags and status
+function classifyProject(project: Project, today: Date): Project {
+  const launch = normalizeLaunchStatus(project.launchStatus, today, project.dataLocale);
+  return {
+    ...project,
+    categories: normalizeCategories(project.categoryTags),
+    launchStage: launch.stage,
+    expectedLaunchDate: launch.expectedDate ?? undefined,
+    launchDatePrecision: launch.datePrecision ?? undefined,
+    injectionFlags: inspectProject(project),
+  };
+}
+
+function cleanUrl(url: string): string {
+  if (url === 'N/A' || !url) return 'N/A';
+  if (!url.startsWith('http')) {
+    return `https://${url}`;
+  }
+  return url;
+}
+
+function cleanCategories(categories: string): string {
+  if (categories === 'N/A' || !categories) return 'N/A';
+  return categories.split(',').map(cat => cat.trim()).join(', ');
+}
+
+interface FilterOutcome {
+  passed: Project[];
+  excluded: ExcludedProject[];
+  funnel: FilterFunnelStep[];
+}
+
+function applyAlphaHuntingFilters(projects: Project[], profile: FilterProfile): FilterOutcome {
+  let remaining = projects;
+  const excluded: (ExcludedProject & { project: Project })[] = [];
+  const funnel: FilterFunnelStep[] = [];
+  // Keeps the projects the rule finds no reason to exclude and records why the others were dropped
+  const step = (
+    stage: ExclusionStage,
+    label: CodedMessage<FunnelStepCode>,
+    rejects: (project: Project) => CodedMessage<ExclusionReasonCode> | null
+  ) => {
+    remaining = remaining.filter(p => {
+      const reason = rejects(p);
+      if (reason) excluded.push({ project: p, projectName: p.projectName, stage, reason, forceIncluded: false });
+      return !reason;
+    });
+    funnel.push({ step: label, count: remaining.length, stage });
+  };
+
+  // 1. Potential Score filter
+  const min = profile.minPotentialScore;
+  step('score', { code: 'score', params: { min } }, p =>
+    p.potentialScore < min ? { code: 'score-below', params: { score: p.potentialScore, min } } : null);
+
+  // 2. Launch Status filter - lifecycle stages, or patterns on the raw status
+  const statusPatterns = profile.allowedStatusPatterns.map(pattern => new RegExp(pattern, 'i'));
+  if (profile.allowedStages.length > 0 || statusPatterns.length > 0) {
+    step('launch-status', { code: 'launch-status' }, p => {
+      const stage = p.launchStage ?? 'unknown';
+      if (profile.allowedStages.includes(stage) || statusPatterns.some(regex => regex.test(p.launchStatus))) return null;
+      return { code: 'stage-not-allowed', params: { stage, status: p.launchStatus } };
+    });
+  }
+
+  // 3. Category filter - aliases and sub-categories match their canonical category
+  if (profile.allowedCategories.length > 0 || profile.excludedCategories.length > 0) {
+    step('category', { code: 'category' }, p => {
+      const categories = p.categories ?? [];
+      if (profile.allowedCategories.length > 0 && !profile.allowedCategories.some(cat => matchesCategory(categories, cat))) {
+        return categories.length > 0 ? { code: 'no-allowed-category', params: { categories: categories.join(', ') } } : { code: 'no-category' };
+      }
+      const excludedCategory = profile.excludedCategories.find(cat => matchesCategory(categories, cat));
+      return excludedCategory ? { code: 'category-excluded', params: { category: excludedCategory } } : null;
+    });
+  }
+
+  // 4. Custom regex rules
+  if (profile.regexRules.length > 0) {
+    const rules = profile.regexRules.map(rule => ({ ...rule, regex: new RegExp(rule.pattern, 'i') }));
+    step('custom-rule', { code: 'custom-rules' }, p => {
+      const broken = rules.find(rule => rule.regex.test(p[rule.field] || '') !== (rule.action === 'require'));
+      if (!broken) return null;
+      const params = { field: broken.field, pattern: broken.pattern };
+      return { code: broken.action === 'require' ? 'rule-not-matched' : 'rule-matched', params };
+    });
+  }
+
+  // 5. Projects the analyst chose to keep despite the rules
+  const forced = new Set(profile.forceIncludedIds);
+  const included = excluded
+    .filter(entry => forced.has(entry.project.id))
+    .map(entry => {
+      entry.forceIncluded = true;
+      return { ...entry.project, forceIncluded: true };
+    });
+  if (included.length > 0) {
+    funnel.push({ step: { code: 'force-included' }, count: remaining.length + included.length });
+  }
+
+  return { passed: [...remaining, ...included], excluded, funnel };
+}
+
+function calculatePriorityBreakdown(project: Project, model: ScoringModel): PriorityBreakdownItem[] {
+  const factors: [PriorityFactor, number][] = [
+    ['potential', project.potentialScore],
+    ['launch', calculateLaunchPriority(project, model)],
+    ['category', calculateCategoryPriority(project, model)],
+  ];
+  if (model.includeVerification) {
+    factors.push(['verification', calculateVerificationPriority(project, model)]);
+  }
+
+  return factors.map(([factor, value]) => {
+    const weight = model.weights[factor];
+    return { factor, value, weight, contribution: value * weight };
+  });
+}
+
+function calculateLaunchPriority(project: Project, model: ScoringModel): number {
+  return model.launchStageScores[project.launchStage ?? 'unknown'];
+}
+
+function calculateCategoryPriority(project: Project, model: ScoringModel): number {
+  return findTierScore(model.categoryTiers, cat => matchesCategory(project.categories ?? [], cat))
+    ?? model.defaultCategoryScore;
+}
+
+function calculateVerificationPriority(project: Project, model: ScoringModel): number {
+  if (project.verificationStatus === 'failed') return 0;
+  if (project.verificationStatus !== 'verified' || project.verificationScore === undefined) {
+    return model.unverifiedScore;
+  }
+  // Verification confidence is 0-100, the other factors are on a 0-10 scale
+  return project.verificationScore / 10;
+}
+
+function findTierScore(tiers: ScoreTier[], matches: (keyword: string) => boolean): number | undefined {
+  return tiers.find(tier => tier.match.some(matches))?.score;
+}
+
+function generateSummaryStats(projects: Project[]): SummaryStatistics {
+  const totalProjects = projects.length;
+  const averagePotentialScore = totalProjects > 0 ? projects.reduce((sum, p) => sum + p.potentialScore, 0) / totalProjects : 0;
+  const highPotentialProjects = projects.filter(p => p.potentialScore >= 8).length;
+  const mediumPotentialProjects = projects.filter(p => p.potentialScore >= 6 && p.potentialScore < 8).length;
+  const upcomingProjects = projects.filter(p => p.launchStage === 'planned').length;
+
+  return {
+    totalProjects,
+    averagePotentialScore: parseFloat(averagePotentialScore.toFixed(2)),
+    highPotentialProjects,
+    mediumPotentialProjects,
+    upcomingProjects
+  };
+}
+
+// Counts each project once per top-level group, so GameFi and Gaming projects add up to Gaming
+function analyzeCategories(projects: Project[]): ChartData[] {
+  const counts: { [key: string]: number } = {};
+  projects.forEach(p => {
+    new Set((p.categories ?? []).map(categoryGroup)).forEach(group => {
+      counts[group] = (counts[group] || 0) + 1;
+    });
+  });
+  return Object.entries(counts)
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 8);
+}
+
+function countSourcePlatforms(projects: Project[]): ChartData[] {
+  const counts = new Map<string, number>();
+  projects.flatMap(sourcePlatformsOf).forEach(source => counts.set(source, (counts.get(source) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label))
+    .slice(0, 8);
+}
+
+// Labelled by stage id; the dashboard and the reports name the stages in their own language
+function analyzeLaunchStatus(projects: Project[]): ChartData[] {
+  return LAUNCH_STAGES
+    .map(stage => ({
+      label: stage,
+      value: projects.filter(p => (p.launchStage ?? 'unknown') === stage).length,
+    }))
+    .filter(item => item.value > 0);
+}
+
+// Projects whose expected launch period overlaps the timeline window
+function buildLaunchTimeline(projects: Project[], today: Date): LaunchTimelineEntry[] {
+  const { start, end } = timelineWindow(LAUNCH_TIMELINE_WEEKS, today);
+  const [from, to] = [toIsoDate(start), toIsoDate(end)];
+
+  return projects
+    .filter(p => p.expectedLaunchDate && p.expectedLaunchDate < to &&
+      periodEnd(p.expectedLaunchDate, p.launchDatePrecision ?? 'day') >= from)
+    .map(p => ({ id: p.id, projectName: p.projectName, date: p.expectedLaunchDate!, precision: p.launchDatePrecision ?? 'day' }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function analyzePotentialScores(projects: Project[]): ChartData[] {
+  const counts: { [key: string]: number } = {};
+  projects.forEach(p => {
+    const score = Math.floor(p.potentialScore).toString();
+    counts[score] = (counts[score] || 0) + 1;
+  });
+  return Object.entries(counts).map(([label, value]) => ({ label: `${label}.x`, value })).sort((a, b) => parseFloat(a.label) - parseFloat(b.label));
+}
@@ -0,0 +1,73 @@
+import { CsvFilePreview } from '../models/analysis.model';
+import { CsvRecord, CsvStreamParser, CsvTable, detectDelimiter } from '../services/csv-parser';
+
+// Bytes decoded and parsed per step; progress is reported after each chunk
+export const CSV_CHUNK_BYTES = 1024 * 1024;
+// Enough of the file to detect the delimiter and show sample rows
+const PREVIEW_BYTES = 64 * 1024;
+
+export type CsvReadProgress = (loadedBytes: number, totalBytes: number) => void;
+
+/**
+ * Reads a CSV file chunk by chunk, so a large file is never held in memory as one string.
+ * Encodings are detected like decodeCsvBuffer: a byte order mark wins, otherwise UTF-8 with
+ * a second pass as Windows-1254 when the bytes turn out not to be valid UTF-8.
+ */
+export async function readCsvFile(file: Blob, onProgress?: CsvReadProgress): Promise<CsvTable> {
+  return readWithFallback(file, file.size, onProgress);
+}
+
+export async function previewCsvFile(file: Blob, sampleSize = 3): Promise<CsvFilePreview> {
+  const table = await readWithFallback(file, PREVIEW_BYTES);
+  return {
+    headers: table.headers,
+    sampleRows: table.records.slice(0, sampleSize).map(record => record.fields),
+    delimiter: table.delimiter,
+    encoding: table.encoding,
+  };
+}
+
+async function readWithFallback(file: Blob, maxBytes: number, onProgress?: CsvReadProgress): Promise<CsvTable> {
+  const bom = byteOrderMark(new Uint8Array(await file.slice(0, 3).arrayBuffer()));
+  try {
+    return await streamCsv(file, bom ?? 'utf-8', bom === null, maxBytes, onProgress);
+  } catch (error) {
+    // A fatal decoder throws a TypeError on the first invalid byte sequence
+    if (bom !== null || !(error instanceof TypeError)) throw error;
+    return streamCsv(file, 'windows-1254', false, maxBytes, onProgress);
+  }
+}
+
+async function streamCsv(file: Blob, encoding: string, fatal: boolean, maxBytes: number, onProgress?: CsvReadProgress): Promise<CsvTable> {
+  const decoder = new TextDecoder(encoding, { fatal });
+  const end = Math.min(file.size, maxBytes);
+  const records: CsvRecord[] = [];
+  let parser: CsvStreamParser | null = null;
+  let delimiter = ',';
+
+  for (let offset = 0; offset < end; offset += CSV_CHUNK_BYTES) {
+    const chunkEnd = Math.min(offset + CSV_CHUNK_BYTES, end);
+    const bytes = new Uint8Array(await file.slice(offset, chunkEnd).arrayBuffer());
+    // Streaming keeps a multi-byte character that is split between chunks for the next one
+    const text = decoder.decode(bytes, { stream: chunkEnd < file.size });
+    if (!parser) {
+      delimiter = detectDelimiter(text.substring(0, PREVIEW_BYTES));
+      parser = new CsvStreamParser(delimiter, record => records.push(record));
+    }
+    parser.push(text);
+    onProgress?.(chunkEnd, file.size);
+  }
+  // A preview stops mid-file, where the last record may be cut off
+  if (parser && end === file.size) parser.end();
+
+  const [headerRecord, ...rest] = records;
+  const headers = headerRecord ? headerRecord.fields.map(h => h.trim()) : [];
+  return { headers, records: rest, delimiter, encoding };
+}
+
+function byteOrderMark(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  return null;
+}
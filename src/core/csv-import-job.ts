@@ -0,0 +1,55 @@
+import { AnalysisResult, ColumnMapping, CsvFilePreview, CsvParseResult } from '../models/analysis.model';
+import { FilterProfile } from '../models/filter-profile.model';
+import { ScoringModel } from '../models/scoring-model.model';
+import { Locale } from '../models/locale.model';
+import { readCsvFile } from './csv-file-reader';
+import { buildProjects } from './csv-import';
+import { analyzeData } from './analysis-pipeline';
+
+export interface CsvImportOptions {
+  mapping: ColumnMapping;
+  // Number and date format of the file
+  locale: Locale;
+  // Runs the analysis on the parsed projects as part of the same job when set
+  analysis?: { profile: FilterProfile; scoringModel: ScoringModel; today: Date };
+}
+
+export interface CsvImportOutcome {
+  parse: CsvParseResult;
+  result: AnalysisResult | null;
+}
+
+export interface CsvImportProgress {
+  phase: 'reading' | 'analyzing';
+  loadedBytes: number;
+  totalBytes: number;
+}
+
+// Messages between the app and the CSV import worker
+export type CsvWorkerRequest =
+  | { id: number; type: 'preview'; file: File }
+  | { id: number; type: 'import'; file: File; options: CsvImportOptions };
+
+export type CsvWorkerResponse =
+  | { id: number; type: 'progress'; progress: CsvImportProgress }
+  | { id: number; type: 'preview'; preview: CsvFilePreview }
+  | { id: number; type: 'import'; outcome: CsvImportOutcome }
+  | { id: number; type: 'error'; message: string };
+
+export async function importCsvFile(
+  file: File,
+  options: CsvImportOptions,
+  onProgress?: (progress: CsvImportProgress) => void
+): Promise<CsvImportOutcome> {
+  const table = await readCsvFile(file, (loadedBytes, totalBytes) => onProgress?.({ phase: 'reading', loadedBytes, totalBytes }));
+  if (table.headers.length === 0) {
+    throw new Error("CSV file is empty or could not be parsed.");
+  }
+
+  onProgress?.({ phase: 'analyzing', loadedBytes: file.size, totalBytes: file.size });
+  const parse = buildProjects(table, options.mapping, options.locale);
+  const result = options.analysis && parse.projects.length > 0
+    ? analyzeData(parse.projects, parse.diagnostics, options.analysis.profile, options.analysis.scoringModel, options.analysis.today)
+    : null;
+  return { parse, result };
+}
@@ -0,0 +1,153 @@
+import { Project, CsvParseDiagnostic, CsvParseResult, ColumnMapping, MappableField, MAPPABLE_FIELDS, REQUIRED_FIELDS } from '../models/analysis.model';
+import { CsvTable, decodeCsvBuffer, detectDelimiter, parseCsvRecords } from '../services/csv-parser';
+import { projectId } from '../services/project-dedup';
+import { isAppExport, readEnrichment } from '../services/export/export-columns';
+import { unescapeCsvField } from '../services/export/csv-writer';
+import { parseLocaleNumber } from '../services/locale-number';
+import { Locale } from '../models/locale.model';
+
+const HEADER_SYNONYMS: Record<MappableField, string[]> = {
+  projectName: ['Proje_Adı', 'Proje Adı', 'Project Name'],
+  websiteUrl: ['Website_URL', 'Website URL', 'Website'],
+  sourcePlatform: ['Kaynak_Platform', 'Kaynak Platform', 'Source Platform', 'Source'],
+  categoryTags: ['Kategori_Etiketler', 'Kategori Etiketleri', 'Category Tags', 'Categories', 'Tags'],
+  launchStatus: ['Lansman_Tarihi_Durumu', 'Lansman Tarihi Durumu', 'Lansman Durumu', 'Launch Status'],
+  rawDescription: ['Ham_Açıklama', 'Ham Açıklama', 'Açıklama', 'Description', 'Raw Description'],
+  potentialScore: ['Potansiyel_Skoru', 'Potensiyel Skoru', 'Potential Score', 'Score', 'Puan'],
+  analystNote: ['Analist_Notu', 'Analist Notu', 'Analyst Note', 'Note', 'Not'],
+};
+
+export function readCsvBuffer(buffer: ArrayBuffer | Uint8Array): CsvTable {
+  const { text, encoding } = decodeCsvBuffer(buffer);
+  return { ...readCsvTable(text), encoding };
+}
+
+export function readCsvTable(csvText: string): CsvTable {
+  // Handle BOM character at the start of the file
+  if (csvText.charCodeAt(0) === 0xFEFF) {
+    csvText = csvText.substring(1);
+  }
+
+  const delimiter = detectDelimiter(csvText.substring(0, 64 * 1024));
+  const [headerRecord, ...records] = parseCsvRecords(csvText, delimiter);
+  const headers = headerRecord ? headerRecord.fields.map(h => h.trim()) : [];
+  return { headers, records, delimiter, encoding: 'utf-8' };
+}
+
+export function parseCsv(csvText: string, mapping?: ColumnMapping, locale: Locale = 'en'): CsvParseResult {
+  const table = readCsvTable(csvText);
+  return buildProjects(table, mapping ?? autoMapColumns(table.headers), locale);
+}
+
+// Matches each file header against the known synonyms; unmatched headers map to null
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const used = new Set<MappableField>();
+  return headers.map(header => {
+    const normalizedHeader = normalizeHeader(header);
+    if (!normalizedHeader) return null; // Skip empty headers
+
+    const field = MAPPABLE_FIELDS.find(f =>
+      !used.has(f) && HEADER_SYNONYMS[f].map(s => normalizeHeader(s)).includes(normalizedHeader)
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+export function missingRequiredFields(mapping: ColumnMapping): MappableField[] {
+  return REQUIRED_FIELDS.filter(field => !mapping.includes(field));
+}
+
+// Identifies a file layout independently of header casing, spacing and Turkish characters
+export function headerSignature(headers: string[]): string {
+  return headers.map(h => normalizeHeader(h)).join('|');
+}
+
+// `locale` is the file's number and date format, used where a value reads differently in each
+export function buildProjects(table: CsvTable, mapping: ColumnMapping, locale: Locale = 'en'): CsvParseResult {
+  const missingProps = missingRequiredFields(mapping);
+  if (missingProps.length > 0) {
+    throw new Error(`Missing required columns. Could not find: ${missingProps.join(', ')} (or a valid alternative).`);
+  }
+
+  const diagnostics: CsvParseDiagnostic[] = [];
+  const projects: Project[] = [];
+  const columnCount = table.headers.length;
+  // Only this app's exports carry the formula guard; a raw file may really start a value with an apostrophe
+  const unescape = isAppExport(table.headers) ? unescapeCsvField : (text: string) => text;
+
+  table.records.forEach(record => {
+    const line = record.line;
+    if (record.unterminated) {
+      diagnostics.push({ line, severity: 'error', reason: { code: 'unclosed-quote' } });
+      return;
+    }
+    record.issues.forEach(reason => diagnostics.push({ line, severity: 'warning', reason }));
+
+    const values = record.fields.map(v => unescape(v.trim()));
+    if (values.length < columnCount) {
+      diagnostics.push({ line, severity: 'warning', reason: { code: 'missing-values', params: { count: values.length, columns: columnCount } } });
+    } else if (values.length > columnCount) {
+      diagnostics.push({ line, severity: 'warning', reason: { code: 'extra-values', params: { count: values.length, columns: columnCount } } });
+    }
+
+    const project: any = { verificationStatus: 'unverified', dataLocale: locale };
+
+    values.forEach((value, index) => {
+      const key = mapping[index];
+      if (key) {
+        if (key === 'potentialScore') {
+          const score = parseLocaleNumber(value, locale);
+          if (value && isNaN(score)) {
+            diagnostics.push({ line, severity: 'warning', reason: { code: 'invalid-score', params: { value } } });
+          }
+          project[key] = score || 0;
+        } else {
+          project[key] = value || '';
+        }
+      }
+    });
+
+    MAPPABLE_FIELDS.forEach(propKey => {
+      if (project[propKey] === undefined) {
+        project[propKey] = propKey === 'potentialScore' ? 0 : 'N/A';
+      }
+    });
+
+    if (!project.projectName || project.projectName === 'N/A') {
+      diagnostics.push({ line, severity: 'error', reason: { code: 'empty-name' } });
+      return;
+    }
+    // Files exported by this app carry verification results that should survive a re-import
+    readEnrichment(table.headers, values, project);
+    project.id = projectId(project);
+    projects.push(project as Project);
+  });
+
+  return {
+    projects,
+    diagnostics,
+    delimiter: table.delimiter,
+    encoding: table.encoding,
+    totalRows: table.records.length,
+  };
+}
+
+// A more aggressive, direct sanitization function for header normalization.
+function normalizeHeader(h: string): string {
+  if (!h) return '';
+  return h
+    .replace(/^\uFEFF/, '') // Remove BOM
+    .trim()
+    .toLowerCase()
+    // Explicitly map Turkish characters to ASCII equivalents
+    .replace(/ı/g, 'i')
+    .replace(/ö/g, 'o')
+    .replace(/ü/g, 'u')
+    .replace(/ç/g, 'c')
+    .replace(/ş/g, 's')
+    .replace(/ğ/g, 'g')
+    // Remove all non-alphanumeric characters to be safe
+    .replace(/[^a-z0-9]/g, '');
+}
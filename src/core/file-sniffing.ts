@@ -0,0 +1,37 @@
+import { CSV_DELIMITERS } from '../services/csv-parser';
+
+export type UploadKind = 'csv' | 'json';
+
+const CSV_EXTENSIONS = ['csv', 'tsv', 'txt'];
+const SNIFF_BYTES = 4096;
+
+/**
+ * Tells CSV files from JSON exports by extension and content. The MIME type is not used:
+ * browsers report CSV files as text/csv, application/vnd.ms-excel, text/plain or nothing at all.
+ * Throws for anything else, e.g. an Excel workbook.
+ */
+export async function detectUploadKind(file: File): Promise<UploadKind> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  if (head.length === 0) {
+    throw new Error('The file is empty.');
+  }
+  // ZIP (xlsx, ods) and OLE2 (xls) signatures
+  if ((head[0] === 0x50 && head[1] === 0x4B) || (head[0] === 0xD0 && head[1] === 0xCF && head[2] === 0x11 && head[3] === 0xE0)) {
+    throw new Error('This looks like a spreadsheet workbook. Save it as CSV and upload that file.');
+  }
+  const utf16 = (head[0] === 0xFF && head[1] === 0xFE) ? 'utf-16le' : (head[0] === 0xFE && head[1] === 0xFF) ? 'utf-16be' : null;
+  if (!utf16 && head.includes(0)) {
+    throw new Error('The file is not a text file. Please upload a CSV file or a JSON export.');
+  }
+
+  const extension = file.name.toLowerCase().split('.').pop() ?? '';
+  if (extension === 'json') return 'json';
+  if (CSV_EXTENSIONS.includes(extension)) return 'csv';
+
+  // Unknown extension: look at the content. Non-UTF-8 bytes are replaced, which is enough to sniff.
+  const text = new TextDecoder(utf16 ?? 'utf-8').decode(head).trimStart();
+  if (/^[{[]/.test(text)) return 'json';
+  const firstLine = text.split(/\r?\n|\r/)[0];
+  if (CSV_DELIMITERS.some(delimiter => firstLine.includes(delimiter))) return 'csv';
+  throw new Error('Unsupported file. Please upload a CSV file or a JSON export.');
+}
@@ -0,0 +1,12 @@
+// Framework-free analysis pipeline shared by the Angular app and the command line tool
+export { readCsvBuffer, readCsvTable, parseCsv, autoMapColumns, missingRequiredFields, headerSignature, buildProjects } from './csv-import';
+export { analyzeData, summarize, prioritizeProjects, analyzeSourcePlatforms } from './analysis-pipeline';
+export { verifyProject } from './project-verifier';
+export type { VerificationHooks } from './project-verifier';
+export { normalizeFilterProfile, validateFilterProfile, normalizeScoringModel, validateScoringModel } from './profile-config';
+export { pricingFor, estimateCost, estimateRequestCost } from './llm-cost';
+export { CSV_CHUNK_BYTES, readCsvFile, previewCsvFile } from './csv-file-reader';
+export { detectUploadKind } from './file-sniffing';
+export type { UploadKind } from './file-sniffing';
+export { importCsvFile } from './csv-import-job';
+export type { CsvImportOptions, CsvImportOutcome, CsvImportProgress, CsvWorkerRequest, CsvWorkerResponse } from './csv-import-job';
@@ -0,0 +1,34 @@
+import { MODEL_PRICING, ModelPricing } from '../models/llm-usage.model';
+import { LlmRequest, LlmUsage } from '../services/llm/llm-provider';
+
+// Rough prompt size for English text, and a response large enough for the verification JSON plus some thinking
+const CHARS_PER_TOKEN = 4;
+const EXPECTED_RESPONSE_TOKENS = 2_000;
+
+// Pricing of the longest matching model name, so 'gemini-2.5-flash-preview-05-20' uses the 'gemini-2.5-flash' price
+export function pricingFor(model: string): ModelPricing | null {
+  const name = model.toLowerCase().replace(/^models\//, '');
+  const match = Object.keys(MODEL_PRICING)
+    .filter(key => name === key || name.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : null;
+}
+
+// Local models and unknown names are counted as free
+export function estimateCost(model: string, usage: LlmUsage): number {
+  const pricing = pricingFor(model);
+  if (!pricing) return 0;
+  return (usage.promptTokens + usage.groundingTokens) / 1_000_000 * pricing.inputPerMillionUsd +
+    usage.responseTokens / 1_000_000 * pricing.outputPerMillionUsd +
+    (usage.grounded ? pricing.groundedRequestUsd : 0);
+}
+
+// Cost of a request estimated before it is sent, so a budget can hold it back until the real usage is known
+export function estimateRequestCost(model: string, request: LlmRequest): number {
+  return estimateCost(model, {
+    promptTokens: Math.ceil(request.prompt.length / CHARS_PER_TOKEN),
+    responseTokens: EXPECTED_RESPONSE_TOKENS,
+    groundingTokens: 0,
+    grounded: request.useSearch,
+  });
+}
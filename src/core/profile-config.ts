@@ -0,0 +1,67 @@
+import { DEFAULT_FILTER_PROFILE, FILTERABLE_FIELDS, FilterProfile } from '../models/filter-profile.model';
+import { DEFAULT_SCORING_MODEL, PRIORITY_FACTORS, ScoringModel } from '../models/scoring-model.model';
+import { LAUNCH_STAGES } from '../models/launch-lifecycle.model';
+
+// Fills in the fields a partial profile, e.g. a hand-written CLI profile file, leaves out
+export function normalizeFilterProfile(profile: Partial<FilterProfile>): FilterProfile {
+  return { ...structuredClone(DEFAULT_FILTER_PROFILE), ...profile };
+}
+
+export function validateFilterProfile(profile: FilterProfile): string[] {
+  const errors: string[] = [];
+  if (!profile.name.trim()) {
+    errors.push('Profile name cannot be empty.');
+  }
+  if (isNaN(profile.minPotentialScore)) {
+    errors.push('Minimum score must be a number.');
+  }
+  profile.allowedStages.forEach(stage => {
+    if (!LAUNCH_STAGES.includes(stage)) {
+      errors.push(`Unknown launch stage: ${stage}`);
+    }
+  });
+  const patterns = [...profile.allowedStatusPatterns, ...profile.regexRules.map(r => r.pattern)];
+  patterns.forEach(pattern => {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      errors.push(`Invalid regular expression: ${pattern}`);
+    }
+  });
+  profile.regexRules.forEach(rule => {
+    if (!FILTERABLE_FIELDS.includes(rule.field)) {
+      errors.push(`Unknown field in regex rule: ${rule.field}`);
+    }
+  });
+  return errors;
+}
+
+// Fills in the fields a partial scoring model leaves out, including single weights and stage scores
+export function normalizeScoringModel(model: Partial<ScoringModel>): ScoringModel {
+  return {
+    ...structuredClone(DEFAULT_SCORING_MODEL),
+    ...model,
+    weights: { ...DEFAULT_SCORING_MODEL.weights, ...model.weights },
+    launchStageScores: { ...DEFAULT_SCORING_MODEL.launchStageScores, ...model.launchStageScores },
+  };
+}
+
+export function validateScoringModel(model: ScoringModel): string[] {
+  const errors: string[] = [];
+  PRIORITY_FACTORS.forEach(factor => {
+    const weight = model.weights[factor];
+    if (isNaN(weight) || weight < 0) {
+      errors.push(`Weight for "${factor}" must be a non-negative number.`);
+    }
+  });
+  const scores = [
+    model.defaultCategoryScore,
+    model.unverifiedScore,
+    ...LAUNCH_STAGES.map(stage => model.launchStageScores[stage]),
+    ...model.categoryTiers.map(t => t.score),
+  ];
+  if (scores.some(score => isNaN(score))) {
+    errors.push('Every tier score must be a number.');
+  }
+  return errors;
+}
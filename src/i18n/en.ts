@@ -0,0 +1,457 @@
+// English UI messages. Keys are grouped by screen; `{name}` placeholders are filled in by I18nService.
+export const EN = {
+  // Common
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.error': 'Error:',
+  'common.close': 'Close',
+  'common.remove': 'Remove',
+  'common.clear': 'Clear',
+  'common.restoreDefaults': 'Restore Defaults',
+
+  // App shell
+  'app.title': 'Project AlphaAgent Analyzer',
+  'app.language': 'Language',
+  'header.editColumnMapping': 'Edit Column Mapping',
+  'header.analyzeNewCsv': 'Analyze New CSV',
+  'header.apiKey': 'API key',
+  'header.changeAiSettings': 'Change AI Settings',
+  'loading.analyzing': 'Analyzing data... please wait.',
+  'loading.reading': 'Reading {loaded} of {total} MB',
+  'loading.scoring': 'Scoring projects…',
+  'errors.emptyApiKey': 'API Key cannot be empty.',
+  'errors.shortPassphrase': 'The passphrase must be at least 8 characters long.',
+  'errors.processingFile': 'Error processing file: {message}',
+  'errors.updatingProfile': 'Error updating the filter profile: {message}',
+  'errors.comparisonFile': 'Error loading the comparison file: {message}',
+  'errors.comparisonSession': 'Error loading the comparison session: {message}',
+  'errors.openingSession': 'Error opening session: {message}',
+  'errors.applyingProfile': 'Error applying filter profile: {message}',
+
+  // AI provider setup
+  'apiKey.title': 'Connect Your AI Provider',
+  'apiKey.intro': 'To use the verification features, choose an AI provider and model and provide its API key. Keys are only kept in this browser and sent to nothing but the provider\'s API. Save several named keys to switch between personal and shared quotas.',
+  'apiKey.savedKeys': 'Saved keys',
+  'apiKey.badge.local': 'saved',
+  'apiKey.badge.session': 'this tab only',
+  'apiKey.badge.encrypted': 'encrypted',
+  'apiKey.passphraseFor': 'Passphrase for {name}',
+  'apiKey.passphrase': 'Passphrase',
+  'apiKey.passphraseHint': '(asked for when the app is opened; it cannot be recovered)',
+  'apiKey.passphrasePlaceholder': 'At least 8 characters',
+  'apiKey.unlock': 'Unlock',
+  'apiKey.use': 'Use',
+  'apiKey.addAnother': 'Or add another key:',
+  'apiKey.provider': 'Provider',
+  'apiKey.model': 'Model',
+  'apiKey.baseUrl': 'Base URL',
+  'apiKey.key': 'API Key',
+  'apiKey.keyOptional': '(optional for local servers)',
+  'apiKey.keyPlaceholder': 'Enter your API key...',
+  'apiKey.name': 'Name',
+  'apiKey.namePlaceholder': 'e.g. Personal or Team quota',
+  'apiKey.storage': 'Storage',
+  'apiKey.validate': 'Check the key with a test call before saving',
+  'apiKey.checking': 'Checking key…',
+  'apiKey.save': 'Save and Continue',
+  'apiKeyStorage.local': 'Remember in this browser',
+  'apiKeyStorage.session': 'This tab only (forgotten when closed)',
+  'apiKeyStorage.encrypted': 'Remember, encrypted with a passphrase',
+  'apiKeyError.invalid': 'Invalid key',
+  'apiKeyError.invalid.detail': 'The API key or the model was rejected. Check the key and the model name.',
+  'apiKeyError.quota': 'Quota exceeded',
+  'apiKeyError.quota.detail': 'The API key works, but its quota is exhausted or it is being rate limited.',
+  'apiKeyError.network': 'Network error',
+  'apiKeyError.network.detail': 'The API could not be reached. Check the network connection and the base URL.',
+  'apiKeyError.unknown': 'Check failed',
+  'apiKeyError.unknown.detail': '{message}',
+  'llmProvider.gemini': 'Google Gemini',
+  'llmProvider.openai-compatible': 'OpenAI-compatible API (OpenAI, Ollama, LM Studio…)',
+  'llmProvider.mock': 'Offline mock (no network)',
+
+  // Upload and import
+  'upload.title': 'Upload Your CSV File',
+  'upload.intro': 'Drag and drop your project data file here or click to select.',
+  'upload.filterProfile': 'Filter profile:',
+  'upload.uploadFile': 'Upload a file',
+  'upload.dragAndDrop': 'or drag and drop',
+  'upload.hint': 'CSV up to 10MB, or a JSON export of an earlier analysis',
+  'import.issues': '{count} import issue(s) in {rows} rows',
+  'import.format': '({delimiter} separated, {encoding})',
+  'import.line': 'Line {line}',
+  'csvIssue.unclosed-quote': 'Row skipped: a quoted value is never closed, so the rest of the file could not be split into rows.',
+  'csvIssue.empty-name': 'Row skipped: the project name is empty.',
+  'csvIssue.character-after-quote': 'Unexpected character after a closing quote in column {column}.',
+  'csvIssue.quote-in-value': 'Unexpected quote inside an unquoted value in column {column}.',
+  'csvIssue.missing-values': 'Row has {count} values but the header has {columns}; missing values were set to N/A.',
+  'csvIssue.extra-values': 'Row has {count} values but the header has {columns}; extra values were ignored.',
+  'csvIssue.invalid-score': 'Potential score "{value}" is not a number; using 0.',
+  'delimiter.comma': 'comma',
+  'delimiter.semicolon': 'semicolon',
+  'delimiter.tab': 'tab',
+  'delimiter.pipe': 'pipe',
+  'duplicates.merged': '{count} duplicate group(s) merged',
+  'duplicates.hint': '(the highest scoring row is kept, missing fields are filled from the others)',
+  'duplicates.matchedBy': 'matched by {reasons}',
+  'duplicates.reason.website': 'website',
+  'duplicates.reason.name': 'name',
+
+  // Dashboard
+  'summary.title': 'Analysis Summary',
+  'summary.currentView': '(current table view, {visible} of {total} projects)',
+  'summary.totalFiltered': 'Total Filtered Projects',
+  'summary.ofImportedRows': 'of {count} imported rows',
+  'summary.averageScore': 'Avg. Potential Score',
+  'summary.highPotential': 'High Potential (8+)',
+  'summary.mediumPotential': 'Medium Potential (6-8)',
+  'summary.upcoming': 'Upcoming Launches',
+  'charts.categories': 'Top Categories',
+  'charts.launchStage': 'Launch Stage',
+  'charts.scoreDistribution': 'Potential Score Distribution',
+  'charts.sourcePlatforms': 'Source Platforms',
+  'charts.priorityVsVerification': 'Priority vs. Verification',
+  'charts.barHint': 'Click a bar to list its projects',
+  'charts.sliceHint': 'Click a slice to list its projects',
+  'charts.bucketHint': 'Click a bucket to list its projects',
+  'charts.pointHint': 'Verified projects only; click a point to find the project',
+  'charts.verificationScore': 'Verification score (%)',
+  'charts.priorityScore': 'Priority score',
+  'charts.upcomingLaunches': 'Upcoming Launches (next {weeks} weeks)',
+  'charts.exactDate': 'exact date',
+  'charts.approximate': 'approximate',
+
+  // Project table
+  'table.title': 'Prioritized Projects',
+  'table.view': 'Project view',
+  'table.list': 'List',
+  'table.board': 'Board',
+  'table.verifySelected': 'Verify Selected ({count})',
+  'table.verifyAll': 'Verify All ({count})',
+  'table.exportLabel': 'Export the current table view',
+  'table.export': 'Export…',
+  'table.selectAll': 'Select all projects',
+  'table.select': 'Select {name}',
+  'table.projectName': 'Project Name',
+  'table.categories': 'Categories',
+  'table.launchStatus': 'Launch Status',
+  'table.potential': 'Potential',
+  'table.priority': 'Priority',
+  'table.verification': 'Verification',
+  'table.workflow': 'Workflow',
+  'table.forceIncluded': 'force-included',
+  'table.forceIncludedHint': 'Excluded by the filter profile but included manually',
+  'table.suspicious': 'suspicious text',
+  'table.suspiciousHint': 'Looks like instructions to the AI: {flags}',
+  'table.unreachable': 'unreachable',
+  'table.redirects': '{count} redirect(s)',
+  'table.tlsInvalid': 'TLS invalid',
+  'table.noWebsite': 'No website',
+  'table.verify': 'Verify',
+  'table.verificationFailed': 'Verification failed',
+  'table.retry': 'Retry',
+  'table.noMatches': 'No projects match the current filters.',
+  'table.noSearchMatches': 'No projects match the current search and filters.',
+  'details.summary': 'Verification Summary:',
+  'details.team': 'Team:',
+  'details.lastActivity': 'Last activity:',
+  'details.unknown': 'unknown',
+  'details.website': 'Website:',
+  'details.noTitle': 'no title',
+  'details.linkedFromSite': 'Linked from site:',
+  'details.socials': 'Socials:',
+  'details.tokens': 'Tokens:',
+  'details.funding': 'Funding:',
+  'details.redFlags': 'Red flags:',
+  'details.evidence': 'Evidence:',
+  'pagination.rowsPerPage': 'Rows per page',
+  'pagination.range': '{from}–{to} of {total}',
+  'pagination.previous': 'Previous',
+  'pagination.page': 'Page {page} / {count}',
+  'pagination.next': 'Next',
+  'exportFormat.csv': 'CSV',
+  'exportFormat.xlsx': 'Excel (XLSX)',
+  'exportFormat.json': 'JSON (re-importable)',
+  'exportFormat.markdown': 'Markdown report',
+  'exportFormat.report': 'Printable report (PDF)',
+
+  // Stages and statuses
+  'launchStage.planned': 'Planned',
+  'launchStage.development': 'Development',
+  'launchStage.testnet': 'Testnet',
+  'launchStage.alpha-beta': 'Alpha / Beta',
+  'launchStage.live': 'Live',
+  'launchStage.unknown': 'Unknown',
+  'pipelineStage.new': 'New',
+  'pipelineStage.reviewing': 'Reviewing',
+  'pipelineStage.contacted': 'Contacted',
+  'pipelineStage.in-talks': 'In Talks',
+  'pipelineStage.partnered': 'Partnered',
+  'pipelineStage.rejected': 'Rejected',
+  'teamStatus.doxxed': 'doxxed',
+  'teamStatus.partially-doxxed': 'partially doxxed',
+  'teamStatus.anonymous': 'anonymous',
+  'teamStatus.unknown': 'unknown',
+  'verificationStatus.unverified': 'Unverified',
+  'verificationStatus.verifying': 'Verifying',
+  'verificationStatus.verified': 'Verified',
+  'verificationStatus.failed': 'Failed',
+
+  // Column mapping
+  'mapping.title': 'Map Your Columns',
+  'mapping.intro': 'Check how the columns of {file} were matched to project fields. Highlighted columns could not be matched automatically; assign each one to a field, or ignore it.',
+  'mapping.thisFile': 'this file',
+  'mapping.fileColumn': 'File Column',
+  'mapping.sampleValues': 'Sample Values',
+  'mapping.projectField': 'Project Field',
+  'mapping.emptyHeader': '(empty header)',
+  'mapping.ignore': '— Ignore column —',
+  'mapping.required': '(required)',
+  'mapping.missingRequired': 'Required fields not assigned: {fields}',
+  'mapping.duplicateFields': 'Assigned to more than one column: {fields}',
+  'mapping.dataLocale': 'Number and date format:',
+  'mapping.remember': 'Remember this mapping for files with the same columns',
+  'mapping.import': 'Import with this Mapping',
+  'field.projectName': 'Project name',
+  'field.websiteUrl': 'Website URL',
+  'field.sourcePlatform': 'Source platform',
+  'field.categoryTags': 'Category tags',
+  'field.launchStatus': 'Launch status',
+  'field.rawDescription': 'Description',
+  'field.potentialScore': 'Potential score',
+  'field.analystNote': 'Analyst note',
+
+  // Sessions
+  'sessions.title': 'Previous Sessions',
+  'sessions.reuseFor': 'Reuse verifications for',
+  'sessions.days': 'days',
+  'sessions.cacheCleared': 'Cache Cleared',
+  'sessions.clearCache': 'Clear Verification Cache',
+  'sessions.counts': '{projects} projects, {verified} verified',
+  'sessions.open': 'Open',
+  'sessions.empty': 'No saved sessions yet. Sessions are saved automatically after each upload.',
+
+  // Website crawler
+  'crawler.enable': 'Check websites before verification',
+  'crawler.proxy': 'Crawler proxy',
+  'crawler.proxyUrl': 'Crawler proxy URL',
+  'crawler.test': 'Test Connection',
+  'crawler.connected': 'Connected',
+  'crawler.unreachable': 'Not reachable, start it with',
+
+  // Project filters
+  'filters.search': 'Search projects',
+  'filters.searchPlaceholder': 'Search name, description or notes',
+  'filters.category': 'Category',
+  'filters.launchStage': 'Launch Stage',
+  'filters.verification': 'Verification',
+  'filters.source': 'Source',
+  'filters.noValues': 'No values',
+  'filters.score': 'Score',
+  'filters.min': 'min',
+  'filters.max': 'max',
+  'filters.minScore': 'Minimum potential score',
+  'filters.maxScore': 'Maximum potential score',
+  'filters.clear': 'Clear Filters',
+
+  // Filter profile editor
+  'rules.title': 'Alpha Hunting Rules',
+  'rules.closeEditor': 'Close Editor',
+  'rules.edit': 'Edit Rules',
+  'rules.profileName': 'Profile Name',
+  'rules.minScore': 'Minimum Potential Score',
+  'rules.allowedStages': 'Allowed Launch Stages',
+  'rules.allowedStagesHint': '(none accepts all)',
+  'rules.statusPatterns': 'Launch Status Patterns',
+  'rules.statusPatternsHint': '(comma separated regex, also accepted)',
+  'rules.allowedCategories': 'Allowed Categories',
+  'rules.allowedCategoriesHint': '(empty accepts all; aliases and sub-categories match)',
+  'rules.excludedCategories': 'Excluded Categories',
+  'rules.regexRules': 'Regex Rules',
+  'rules.addRule': 'Add Rule',
+  'rules.require': 'Require',
+  'rules.exclude': 'Exclude',
+  'rules.pattern': 'Regular expression',
+  'rules.noRegexRules': 'No regex rules defined.',
+  'rules.forceIncluded': '{count} project(s) are force-included despite these rules.',
+  'rules.saveApply': 'Save & Apply',
+  'rules.saveAsNew': 'Save as New Profile',
+  'rules.deleteProfile': 'Delete Profile',
+
+  // Scoring model editor
+  'scoring.title': 'Priority Scoring Model',
+  'scoring.edit': 'Edit Weights',
+  'scoring.weights': 'Factor Weights',
+  'scoring.factor.potential': 'Potential',
+  'scoring.factor.launch': 'Launch',
+  'scoring.factor.category': 'Category',
+  'scoring.factor.verification': 'Verification',
+  'scoring.includeVerification': 'Include verification score as a factor',
+  'scoring.unverifiedScore': 'Value for unverified projects (0-10)',
+  'scoring.stageScores': 'Launch Stage Scores',
+  'scoring.categoryTiers': 'Category Tiers',
+  'scoring.save': 'Save & Re-score',
+  'scoring.firstMatch': '(first match wins)',
+  'scoring.addTier': 'Add Tier',
+  'scoring.keywords': 'Comma separated keywords',
+  'scoring.noTierScore': 'Score when no tier matches',
+
+  // Run comparison
+  'diff.title': 'Compare Runs',
+  'diff.changesSince': 'Changes since {baseline}, {count} project(s) unchanged',
+  'diff.hint': 'Load an earlier discovery run (raw CSV, CSV/JSON export or saved session) to see what changed.',
+  'diff.compareSession': 'Compare with a saved session',
+  'diff.savedSession': 'Saved session…',
+  'diff.compareFile': 'Compare with File…',
+  'diff.potential': 'potential',
+  'diff.priority': 'priority',
+  'diff.noAdded': 'No new projects.',
+  'diff.noRemoved': 'No project dropped out.',
+  'diff.noScoreChanges': 'No score changes.',
+  'diff.noLaunchChanges': 'No launch status changes.',
+  'diff.noVerificationChanges': 'No verification status changes.',
+  'diff.tab.added': 'New',
+  'diff.tab.removed': 'Dropped out',
+  'diff.tab.scores': 'Score changes',
+  'diff.tab.launch': 'Launch transitions',
+  'diff.tab.verification': 'Verification changes',
+  'diff.summary.totalProjects': 'Projects',
+  'diff.summary.averagePotentialScore': 'Avg. potential',
+  'diff.summary.highPotentialProjects': 'High potential',
+  'diff.summary.mediumPotentialProjects': 'Medium potential',
+  'diff.summary.upcomingProjects': 'Upcoming',
+
+  // Verification queue
+  'queue.title': 'Verification Queue',
+  'queue.progress': '{done} done · {failed} failed · {pending} pending',
+  'queue.paused': '(paused)',
+  'queue.concurrency': 'Concurrency',
+  'queue.attempts': 'Attempts',
+  'queue.resume': 'Resume',
+  'queue.pause': 'Pause',
+  'queue.retryFailed': 'Re-queue Failed',
+  'queue.clearFinished': 'Clear Finished',
+  'queue.showDetails': 'Show Details',
+  'queue.hideDetails': 'Hide Details',
+  'queue.retryIn': '(in {seconds}s)',
+  'queue.attempt': 'attempt {attempt}',
+  'queue.retry': 'Retry',
+  'queue.empty': 'The queue is empty.',
+  'queueState.queued': 'Queued',
+  'queueState.running': 'Verifying',
+  'queueState.waiting': 'Retrying soon',
+  'queueState.done': 'Done',
+  'queueState.failed': 'Failed',
+  'queueState.cancelled': 'Cancelled',
+  'verificationError.rate-limit': 'Rate limit or quota exceeded.',
+  'verificationError.server': 'The API returned a server error ({status}).',
+  'verificationError.network': 'Network error while contacting the API.',
+  'verificationError.auth': 'The API key was rejected.',
+  'verificationError.invalid-response': 'The API returned an invalid verification result: {problems}',
+  'verificationError.not-initialized': 'AI Service not initialized. An API key is required.',
+  'verificationError.budget': 'The budget of ${limit} has been reached. Raise the limit or start a new usage session to continue.',
+  'verificationError.unknown': '{message}',
+
+  // AI usage
+  'usage.title': 'AI Usage',
+  'usage.tokensTitle': 'Prompt / response / search grounding tokens',
+  'usage.session': 'Session:',
+  'usage.today': 'Today:',
+  'usage.calls': '{count} calls',
+  'usage.tokens': 'tokens',
+  'usage.none': 'none',
+  'usage.sessionLimit': 'Session limit $',
+  'usage.dailyLimit': 'Daily limit $',
+  'usage.newSession': 'New Session',
+  'usage.showModels': 'Show Models',
+  'usage.hideModels': 'Hide Models',
+  'usage.budgetExceeded.session': 'The session budget has been reached, so verification is blocked. Raise the limit or start a new session to continue.',
+  'usage.budgetExceeded.daily': 'The daily budget has been reached, so verification is blocked. Raise the limit or start a new session to continue.',
+  'usage.noCalls': 'No AI calls yet. Usage counts since {since}.',
+  'usage.model': 'Model',
+  'usage.callsColumn': 'Calls',
+  'usage.prompt': 'Prompt',
+  'usage.response': 'Response',
+  'usage.grounding': 'Grounding',
+  'usage.sessionCost': 'Session cost',
+  'usage.todayColumn': 'Today',
+  'usage.footnote': 'Session started {since}. Costs are estimates from list prices; local and unknown models count as free.',
+
+  // Project workflow
+  'workflow.stage': 'Stage',
+  'workflow.assignee': 'Assignee',
+  'workflow.unassigned': 'Unassigned',
+  'workflow.followUp': 'Follow-up',
+  'workflow.followUpOn': 'Follow up {date}',
+  'workflow.tags': 'Tags',
+  'workflow.removeTag': 'Remove tag {tag}',
+  'workflow.addTags': 'Add tags, comma separated',
+  'workflow.notes': 'Notes',
+  'workflow.deleteNote': 'Delete note',
+  'workflow.noNotes': 'No notes yet.',
+  'workflow.notePlaceholder': 'Add a note',
+  'workflow.addNote': 'Add Note',
+  'board.priority': 'Priority',
+  'board.followUpDate': 'Follow-up date',
+  'board.notes': '{count} note(s)',
+  'board.edit': 'Edit',
+  'board.empty': 'No projects',
+
+  // Source quality
+  'sources.title': 'Source Quality',
+  'sources.hint': 'How the leads of each discovery source fared; click a source to list its projects',
+  'sources.empty': 'No source platforms in this upload.',
+  'sources.source': 'Source',
+  'sources.rows': 'Rows',
+  'sources.passed': 'Passed',
+  'sources.passRate': 'Pass rate',
+  'sources.avgPotential': 'Avg. potential',
+  'sources.avgPriority': 'Avg. priority',
+  'sources.verifiedFailedHint': 'Verified / failed among the projects that passed',
+  'sources.verifiedFailed': 'Verified / failed',
+  'sources.verificationSuccess': 'Verification success',
+
+  // Filter audit
+  'audit.title': 'Filter Funnel',
+  'audit.hint': 'Projects left after each step; click a step to see what it excluded',
+  'audit.showExcluded': 'Show excluded projects ({count})',
+  'audit.hideExcluded': 'Hide excluded projects ({count})',
+  'audit.forcedCount': '{count} force-included',
+  'audit.search': 'Search excluded projects',
+  'audit.searchPlaceholder': 'Search name or reason',
+  'audit.all': 'All',
+  'audit.forceIncluded': 'force-included',
+  'audit.undo': 'Undo',
+  'audit.include': 'Include',
+  'audit.includeHint': 'Prioritize this project anyway; saved in the active filter profile',
+  'audit.noMatches': 'No excluded projects match.',
+  'audit.showMore': 'Show more ({count} left)',
+  'audit.line': 'Line {line}',
+  'audit.step.rows-in-file': 'Rows in file',
+  'audit.step.imported': 'Imported rows',
+  'audit.step.unique': 'Unique projects',
+  'audit.step.score': 'Potential score ≥ {min}',
+  'audit.step.launch-status': 'Launch status',
+  'audit.step.category': 'Category',
+  'audit.step.custom-rules': 'Custom rules',
+  'audit.step.force-included': 'Force-included',
+  'exclusionStage.parse': 'Parse error',
+  'exclusionStage.score': 'Potential score',
+  'exclusionStage.launch-status': 'Launch status',
+  'exclusionStage.category': 'Category',
+  'exclusionStage.custom-rule': 'Custom rule',
+  'exclusionReason.score-below': 'Potential score {score} is below {min}',
+  'exclusionReason.stage-not-allowed': 'Launch stage {stage} ("{status}") is not allowed',
+  'exclusionReason.no-allowed-category': 'None of its categories ({categories}) is allowed',
+  'exclusionReason.no-category': 'It has no category',
+  'exclusionReason.category-excluded': 'Category {category} is excluded',
+  'exclusionReason.rule-not-matched': '{field} does not match /{pattern}/',
+  'exclusionReason.rule-matched': '{field} matches /{pattern}/',
+
+  // Charts
+  'charts.noData': 'No data for the current view.',
+  'charts.projectsUnit': 'projects',
+  'charts.funnelLeft': '{count} left ({share}% of {first})',
+  'charts.funnelDropped': '{count} dropped at this step',
+  'charts.noLaunches': 'No launches with a known date in the next {weeks} weeks.',
+  'charts.download': 'Download {chart} as {format}',
+};
@@ -0,0 +1,4 @@
+// Fills `{name}` placeholders with the matching parameter; unknown placeholders are kept as they are
+export function formatMessage(message: string, params: Record<string, string | number> = {}): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) => name in params ? String(params[name]) : placeholder);
+}
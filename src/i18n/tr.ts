@@ -0,0 +1,459 @@
+import { EN } from './en';
+
+// Turkish UI messages; the type makes sure every English message has a translation
+export const TR: Record<keyof typeof EN, string> = {
+  // Common
+  'common.cancel': 'İptal',
+  'common.delete': 'Sil',
+  'common.error': 'Hata:',
+  'common.close': 'Kapat',
+  'common.remove': 'Kaldır',
+  'common.clear': 'Temizle',
+  'common.restoreDefaults': 'Varsayılanlara Dön',
+
+  // App shell
+  'app.title': 'Project AlphaAgent Analiz Aracı',
+  'app.language': 'Dil',
+  'header.editColumnMapping': 'Sütun Eşlemesini Düzenle',
+  'header.analyzeNewCsv': 'Yeni CSV Analiz Et',
+  'header.apiKey': 'API anahtarı',
+  'header.changeAiSettings': 'Yapay Zekâ Ayarlarını Değiştir',
+  'loading.analyzing': 'Veriler analiz ediliyor... lütfen bekleyin.',
+  'loading.reading': '{total} MB verinin {loaded} MB kısmı okunuyor',
+  'loading.scoring': 'Projeler puanlanıyor…',
+  'errors.emptyApiKey': 'API anahtarı boş olamaz.',
+  'errors.shortPassphrase': 'Parola en az 8 karakter olmalıdır.',
+  'errors.processingFile': 'Dosya işlenirken hata oluştu: {message}',
+  'errors.updatingProfile': 'Filtre profili güncellenirken hata oluştu: {message}',
+  'errors.comparisonFile': 'Karşılaştırma dosyası yüklenirken hata oluştu: {message}',
+  'errors.comparisonSession': 'Karşılaştırma oturumu yüklenirken hata oluştu: {message}',
+  'errors.openingSession': 'Oturum açılırken hata oluştu: {message}',
+  'errors.applyingProfile': 'Filtre profili uygulanırken hata oluştu: {message}',
+
+  // AI provider setup
+  'apiKey.title': 'Yapay Zekâ Sağlayıcınızı Bağlayın',
+  'apiKey.intro': 'Doğrulama özelliklerini kullanmak için bir yapay zekâ sağlayıcısı ve model seçip API anahtarını girin. Anahtarlar yalnızca bu tarayıcıda saklanır ve yalnızca sağlayıcının API\'sine gönderilir. Kişisel ve ortak kotalar arasında geçiş yapmak için birden fazla adlandırılmış anahtar kaydedebilirsiniz.',
+  'apiKey.savedKeys': 'Kayıtlı anahtarlar',
+  'apiKey.badge.local': 'kayıtlı',
+  'apiKey.badge.session': 'yalnızca bu sekme',
+  'apiKey.badge.encrypted': 'şifreli',
+  'apiKey.passphraseFor': '{name} için parola',
+  'apiKey.passphrase': 'Parola',
+  'apiKey.passphraseHint': '(uygulama açılırken sorulur; kurtarılamaz)',
+  'apiKey.passphrasePlaceholder': 'En az 8 karakter',
+  'apiKey.unlock': 'Kilidi Aç',
+  'apiKey.use': 'Kullan',
+  'apiKey.addAnother': 'Ya da başka bir anahtar ekleyin:',
+  'apiKey.provider': 'Sağlayıcı',
+  'apiKey.model': 'Model',
+  'apiKey.baseUrl': 'Temel URL',
+  'apiKey.key': 'API Anahtarı',
+  'apiKey.keyOptional': '(yerel sunucular için isteğe bağlı)',
+  'apiKey.keyPlaceholder': 'API anahtarınızı girin...',
+  'apiKey.name': 'Ad',
+  'apiKey.namePlaceholder': 'ör. Kişisel veya Ekip kotası',
+  'apiKey.storage': 'Saklama',
+  'apiKey.validate': 'Kaydetmeden önce anahtarı bir deneme çağrısıyla kontrol et',
+  'apiKey.checking': 'Anahtar kontrol ediliyor…',
+  'apiKey.save': 'Kaydet ve Devam Et',
+  'apiKeyStorage.local': 'Bu tarayıcıda hatırla',
+  'apiKeyStorage.session': 'Yalnızca bu sekme (kapatılınca unutulur)',
+  'apiKeyStorage.encrypted': 'Parolayla şifreleyerek hatırla',
+  'apiKeyError.invalid': 'Geçersiz anahtar',
+  'apiKeyError.invalid.detail': 'API anahtarı veya model reddedildi. Anahtarı ve model adını kontrol edin.',
+  'apiKeyError.quota': 'Kota aşıldı',
+  'apiKeyError.quota.detail': 'API anahtarı çalışıyor, ancak kotası dolmuş ya da hız sınırına takılıyor.',
+  'apiKeyError.network': 'Ağ hatası',
+  'apiKeyError.network.detail': 'API\'ye ulaşılamadı. Ağ bağlantısını ve temel URL\'yi kontrol edin.',
+  'apiKeyError.unknown': 'Kontrol başarısız',
+  'apiKeyError.unknown.detail': '{message}',
+  'llmProvider.gemini': 'Google Gemini',
+  'llmProvider.openai-compatible': 'OpenAI uyumlu API (OpenAI, Ollama, LM Studio…)',
+  'llmProvider.mock': 'Çevrimdışı deneme (ağ bağlantısı yok)',
+
+  // Upload and import
+  'upload.title': 'CSV Dosyanızı Yükleyin',
+  'upload.intro': 'Proje veri dosyanızı buraya sürükleyip bırakın veya seçmek için tıklayın.',
+  'upload.filterProfile': 'Filtre profili:',
+  'upload.uploadFile': 'Dosya yükleyin',
+  'upload.dragAndDrop': 'ya da sürükleyip bırakın',
+  'upload.hint': '10 MB\'a kadar CSV veya önceki bir analizin JSON dışa aktarımı',
+  'import.issues': '{rows} satırda {count} içe aktarma sorunu',
+  'import.format': '({delimiter} ile ayrılmış, {encoding})',
+  'import.line': 'Satır {line}',
+  'csvIssue.unclosed-quote': 'Satır atlandı: tırnak içindeki bir değer kapatılmamış, bu yüzden dosyanın geri kalanı satırlara ayrılamadı.',
+  'csvIssue.empty-name': 'Satır atlandı: proje adı boş.',
+  'csvIssue.character-after-quote': '{column}. sütunda kapanış tırnağından sonra beklenmeyen karakter.',
+  'csvIssue.quote-in-value': '{column}. sütunda tırnaksız bir değerin içinde beklenmeyen tırnak.',
+  'csvIssue.missing-values': 'Satırda {count} değer var ama başlıkta {columns} sütun var; eksik değerler N/A yapıldı.',
+  'csvIssue.extra-values': 'Satırda {count} değer var ama başlıkta {columns} sütun var; fazla değerler yok sayıldı.',
+  'csvIssue.invalid-score': 'Potansiyel skor "{value}" bir sayı değil; 0 kullanıldı.',
+  'delimiter.comma': 'virgül',
+  'delimiter.semicolon': 'noktalı virgül',
+  'delimiter.tab': 'sekme',
+  'delimiter.pipe': 'dikey çizgi',
+  'duplicates.merged': '{count} yinelenen grup birleştirildi',
+  'duplicates.hint': '(en yüksek puanlı satır tutulur, eksik alanlar diğerlerinden doldurulur)',
+  'duplicates.matchedBy': 'eşleşme ölçütü: {reasons}',
+  'duplicates.reason.website': 'web sitesi',
+  'duplicates.reason.name': 'ad',
+
+  // Dashboard
+  'summary.title': 'Analiz Özeti',
+  'summary.currentView': '(geçerli tablo görünümü, {total} projeden {visible} tanesi)',
+  'summary.totalFiltered': 'Filtrelenen Toplam Proje',
+  'summary.ofImportedRows': '{count} içe aktarılan satırdan',
+  'summary.averageScore': 'Ort. Potansiyel Skoru',
+  'summary.highPotential': 'Yüksek Potansiyel (8+)',
+  'summary.mediumPotential': 'Orta Potansiyel (6-8)',
+  'summary.upcoming': 'Yaklaşan Lansmanlar',
+  'charts.categories': 'Öne Çıkan Kategoriler',
+  'charts.launchStage': 'Lansman Aşaması',
+  'charts.scoreDistribution': 'Potansiyel Skoru Dağılımı',
+  'charts.sourcePlatforms': 'Kaynak Platformlar',
+  'charts.priorityVsVerification': 'Öncelik ve Doğrulama',
+  'charts.barHint': 'Projelerini listelemek için bir çubuğa tıklayın',
+  'charts.sliceHint': 'Projelerini listelemek için bir dilime tıklayın',
+  'charts.bucketHint': 'Projelerini listelemek için bir aralığa tıklayın',
+  'charts.pointHint': 'Yalnızca doğrulanmış projeler; projeyi bulmak için bir noktaya tıklayın',
+  'charts.verificationScore': 'Doğrulama skoru (%)',
+  'charts.priorityScore': 'Öncelik skoru',
+  'charts.upcomingLaunches': 'Yaklaşan Lansmanlar (önümüzdeki {weeks} hafta)',
+  'charts.exactDate': 'kesin tarih',
+  'charts.approximate': 'yaklaşık',
+
+  // Project table
+  'table.title': 'Önceliklendirilmiş Projeler',
+  'table.view': 'Proje görünümü',
+  'table.list': 'Liste',
+  'table.board': 'Pano',
+  'table.verifySelected': 'Seçilenleri Doğrula ({count})',
+  'table.verifyAll': 'Tümünü Doğrula ({count})',
+  'table.exportLabel': 'Geçerli tablo görünümünü dışa aktar',
+  'table.export': 'Dışa aktar…',
+  'table.selectAll': 'Tüm projeleri seç',
+  'table.select': '{name} projesini seç',
+  'table.projectName': 'Proje Adı',
+  'table.categories': 'Kategoriler',
+  'table.launchStatus': 'Lansman Durumu',
+  'table.potential': 'Potansiyel',
+  'table.priority': 'Öncelik',
+  'table.verification': 'Doğrulama',
+  'table.workflow': 'İş Akışı',
+  'table.forceIncluded': 'zorla dahil',
+  'table.forceIncludedHint': 'Filtre profili tarafından hariç tutuldu ancak elle dahil edildi',
+  'table.suspicious': 'şüpheli metin',
+  'table.suspiciousHint': 'Yapay zekâya yönelik talimatlara benziyor: {flags}',
+  'table.unreachable': 'erişilemiyor',
+  'table.redirects': '{count} yönlendirme',
+  'table.tlsInvalid': 'TLS geçersiz',
+  'table.noWebsite': 'Web sitesi yok',
+  'table.verify': 'Doğrula',
+  'table.verificationFailed': 'Doğrulama başarısız',
+  'table.retry': 'Yeniden Dene',
+  'table.noMatches': 'Geçerli filtrelerle eşleşen proje yok.',
+  'table.noSearchMatches': 'Geçerli arama ve filtrelerle eşleşen proje yok.',
+  'details.summary': 'Doğrulama Özeti:',
+  'details.team': 'Ekip:',
+  'details.lastActivity': 'Son etkinlik:',
+  'details.unknown': 'bilinmiyor',
+  'details.website': 'Web sitesi:',
+  'details.noTitle': 'başlık yok',
+  'details.linkedFromSite': 'Siteden bağlantılı:',
+  'details.socials': 'Sosyal hesaplar:',
+  'details.tokens': 'Tokenlar:',
+  'details.funding': 'Fonlama:',
+  'details.redFlags': 'Uyarı işaretleri:',
+  'details.evidence': 'Kanıtlar:',
+  'pagination.rowsPerPage': 'Sayfa başına satır',
+  'pagination.range': '{from}–{to} / {total}',
+  'pagination.previous': 'Önceki',
+  'pagination.page': 'Sayfa {page} / {count}',
+  'pagination.next': 'Sonraki',
+  'exportFormat.csv': 'CSV',
+  'exportFormat.xlsx': 'Excel (XLSX)',
+  'exportFormat.json': 'JSON (yeniden içe aktarılabilir)',
+  'exportFormat.markdown': 'Markdown raporu',
+  'exportFormat.report': 'Yazdırılabilir rapor (PDF)',
+
+  // Stages and statuses
+  'launchStage.planned': 'Planlandı',
+  'launchStage.development': 'Geliştirme',
+  'launchStage.testnet': 'Testnet',
+  'launchStage.alpha-beta': 'Alfa / Beta',
+  'launchStage.live': 'Yayında',
+  'launchStage.unknown': 'Bilinmiyor',
+  'pipelineStage.new': 'Yeni',
+  'pipelineStage.reviewing': 'İnceleniyor',
+  'pipelineStage.contacted': 'İletişime Geçildi',
+  'pipelineStage.in-talks': 'Görüşmede',
+  'pipelineStage.partnered': 'Ortak Olundu',
+  'pipelineStage.rejected': 'Reddedildi',
+  'teamStatus.doxxed': 'kimliği açık',
+  'teamStatus.partially-doxxed': 'kısmen açık',
+  'teamStatus.anonymous': 'anonim',
+  'teamStatus.unknown': 'bilinmiyor',
+  'verificationStatus.unverified': 'Doğrulanmadı',
+  'verificationStatus.verifying': 'Doğrulanıyor',
+  'verificationStatus.verified': 'Doğrulandı',
+  'verificationStatus.failed': 'Başarısız',
+
+  // Column mapping
+  'mapping.title': 'Sütunlarınızı Eşleyin',
+  'mapping.intro': '{file} dosyasının sütunlarının proje alanlarıyla nasıl eşlendiğini kontrol edin. Vurgulanan sütunlar otomatik olarak eşlenemedi; her birini bir alana atayın ya da yok sayın.',
+  'mapping.thisFile': 'bu dosya',
+  'mapping.fileColumn': 'Dosya Sütunu',
+  'mapping.sampleValues': 'Örnek Değerler',
+  'mapping.projectField': 'Proje Alanı',
+  'mapping.emptyHeader': '(boş başlık)',
+  'mapping.ignore': '— Sütunu yok say —',
+  'mapping.required': '(zorunlu)',
+  'mapping.missingRequired': 'Atanmamış zorunlu alanlar: {fields}',
+  'mapping.duplicateFields': 'Birden fazla sütuna atananlar: {fields}',
+  'mapping.dataLocale': 'Sayı ve tarih biçimi:',
+  'mapping.remember': 'Bu eşlemeyi aynı sütunlara sahip dosyalar için hatırla',
+  'mapping.import': 'Bu Eşlemeyle İçe Aktar',
+  'field.projectName': 'Proje adı',
+  'field.websiteUrl': 'Web sitesi URL\'si',
+  'field.sourcePlatform': 'Kaynak platform',
+  'field.categoryTags': 'Kategori etiketleri',
+  'field.launchStatus': 'Lansman durumu',
+  'field.rawDescription': 'Açıklama',
+  'field.potentialScore': 'Potansiyel skoru',
+  'field.analystNote': 'Analist notu',
+
+  // Sessions
+  'sessions.title': 'Önceki Oturumlar',
+  'sessions.reuseFor': 'Doğrulamaları yeniden kullan:',
+  'sessions.days': 'gün',
+  'sessions.cacheCleared': 'Önbellek Temizlendi',
+  'sessions.clearCache': 'Doğrulama Önbelleğini Temizle',
+  'sessions.counts': '{projects} proje, {verified} doğrulandı',
+  'sessions.open': 'Aç',
+  'sessions.empty': 'Henüz kayıtlı oturum yok. Oturumlar her yüklemeden sonra otomatik olarak kaydedilir.',
+
+  // Website crawler
+  'crawler.enable': 'Doğrulamadan önce web sitelerini kontrol et',
+  'crawler.proxy': 'Tarayıcı vekil sunucusu',
+  'crawler.proxyUrl': 'Tarayıcı vekil sunucusu URL\'si',
+  'crawler.test': 'Bağlantıyı Test Et',
+  'crawler.connected': 'Bağlandı',
+  'crawler.unreachable': 'Erişilemiyor, şu komutla başlatın:',
+
+  // Project filters
+  'filters.search': 'Projelerde ara',
+  'filters.searchPlaceholder': 'Ad, açıklama veya notlarda ara',
+  'filters.category': 'Kategori',
+  'filters.launchStage': 'Lansman Aşaması',
+  'filters.verification': 'Doğrulama',
+  'filters.source': 'Kaynak',
+  'filters.noValues': 'Değer yok',
+  'filters.score': 'Skor',
+  'filters.min': 'en az',
+  'filters.max': 'en çok',
+  'filters.minScore': 'En düşük potansiyel skoru',
+  'filters.maxScore': 'En yüksek potansiyel skoru',
+  'filters.clear': 'Filtreleri Temizle',
+
+  // Filter profile editor
+  'rules.title': 'Alfa Avı Kuralları',
+  'rules.closeEditor': 'Düzenleyiciyi Kapat',
+  'rules.edit': 'Kuralları Düzenle',
+  'rules.profileName': 'Profil Adı',
+  'rules.minScore': 'En Düşük Potansiyel Skoru',
+  'rules.allowedStages': 'İzin Verilen Lansman Aşamaları',
+  'rules.allowedStagesHint': '(hiçbiri seçilmezse tümü kabul edilir)',
+  'rules.statusPatterns': 'Lansman Durumu Kalıpları',
+  'rules.statusPatternsHint': '(virgülle ayrılmış regex, bunlar da kabul edilir)',
+  'rules.allowedCategories': 'İzin Verilen Kategoriler',
+  'rules.allowedCategoriesHint': '(boşsa tümü kabul edilir; takma adlar ve alt kategoriler eşleşir)',
+  'rules.excludedCategories': 'Hariç Tutulan Kategoriler',
+  'rules.regexRules': 'Regex Kuralları',
+  'rules.addRule': 'Kural Ekle',
+  'rules.require': 'Zorunlu',
+  'rules.exclude': 'Hariç tut',
+  'rules.pattern': 'Düzenli ifade',
+  'rules.noRegexRules': 'Tanımlı regex kuralı yok.',
+  'rules.forceIncluded': '{count} proje bu kurallara rağmen zorla dahil edildi.',
+  'rules.saveApply': 'Kaydet ve Uygula',
+  'rules.saveAsNew': 'Yeni Profil Olarak Kaydet',
+  'rules.deleteProfile': 'Profili Sil',
+
+  // Scoring model editor
+  'scoring.title': 'Öncelik Puanlama Modeli',
+  'scoring.edit': 'Ağırlıkları Düzenle',
+  'scoring.weights': 'Faktör Ağırlıkları',
+  'scoring.factor.potential': 'Potansiyel',
+  'scoring.factor.launch': 'Lansman',
+  'scoring.factor.category': 'Kategori',
+  'scoring.factor.verification': 'Doğrulama',
+  'scoring.includeVerification': 'Doğrulama skorunu faktör olarak dahil et',
+  'scoring.unverifiedScore': 'Doğrulanmamış projeler için değer (0-10)',
+  'scoring.stageScores': 'Lansman Aşaması Skorları',
+  'scoring.categoryTiers': 'Kategori Kademeleri',
+  'scoring.save': 'Kaydet ve Yeniden Puanla',
+  'scoring.firstMatch': '(ilk eşleşme geçerlidir)',
+  'scoring.addTier': 'Kademe Ekle',
+  'scoring.keywords': 'Virgülle ayrılmış anahtar kelimeler',
+  'scoring.noTierScore': 'Hiçbir kademe eşleşmediğinde skor',
+
+  // Run comparison
+  'diff.title': 'Çalıştırmaları Karşılaştır',
+  'diff.changesSince': '{baseline} sonrasındaki değişiklikler, {count} proje değişmedi',
+  'diff.hint': 'Nelerin değiştiğini görmek için önceki bir keşif çalıştırmasını (ham CSV, CSV/JSON dışa aktarımı veya kayıtlı oturum) yükleyin.',
+  'diff.compareSession': 'Kayıtlı bir oturumla karşılaştır',
+  'diff.savedSession': 'Kayıtlı oturum…',
+  'diff.compareFile': 'Dosyayla Karşılaştır…',
+  'diff.potential': 'potansiyel',
+  'diff.priority': 'öncelik',
+  'diff.noAdded': 'Yeni proje yok.',
+  'diff.noRemoved': 'Çıkan proje yok.',
+  'diff.noScoreChanges': 'Skor değişikliği yok.',
+  'diff.noLaunchChanges': 'Lansman durumu değişikliği yok.',
+  'diff.noVerificationChanges': 'Doğrulama durumu değişikliği yok.',
+  'diff.tab.added': 'Yeni',
+  'diff.tab.removed': 'Çıkanlar',
+  'diff.tab.scores': 'Skor değişiklikleri',
+  'diff.tab.launch': 'Lansman geçişleri',
+  'diff.tab.verification': 'Doğrulama değişiklikleri',
+  'diff.summary.totalProjects': 'Projeler',
+  'diff.summary.averagePotentialScore': 'Ort. potansiyel',
+  'diff.summary.highPotentialProjects': 'Yüksek potansiyel',
+  'diff.summary.mediumPotentialProjects': 'Orta potansiyel',
+  'diff.summary.upcomingProjects': 'Yaklaşan',
+
+  // Verification queue
+  'queue.title': 'Doğrulama Kuyruğu',
+  'queue.progress': '{done} tamamlandı · {failed} başarısız · {pending} bekliyor',
+  'queue.paused': '(duraklatıldı)',
+  'queue.concurrency': 'Eşzamanlılık',
+  'queue.attempts': 'Deneme',
+  'queue.resume': 'Devam Et',
+  'queue.pause': 'Duraklat',
+  'queue.retryFailed': 'Başarısızları Yeniden Kuyruğa Al',
+  'queue.clearFinished': 'Bitenleri Temizle',
+  'queue.showDetails': 'Ayrıntıları Göster',
+  'queue.hideDetails': 'Ayrıntıları Gizle',
+  'queue.retryIn': '({seconds} sn içinde)',
+  'queue.attempt': '{attempt}. deneme',
+  'queue.retry': 'Yeniden Dene',
+  'queue.empty': 'Kuyruk boş.',
+  'queueState.queued': 'Kuyrukta',
+  'queueState.running': 'Doğrulanıyor',
+  'queueState.waiting': 'Birazdan yeniden denenecek',
+  'queueState.done': 'Tamamlandı',
+  'queueState.failed': 'Başarısız',
+  'queueState.cancelled': 'İptal edildi',
+  'verificationError.rate-limit': 'İstek sınırı veya kota aşıldı.',
+  'verificationError.server': 'API bir sunucu hatası döndürdü ({status}).',
+  'verificationError.network': 'API ile iletişim kurulurken ağ hatası oluştu.',
+  'verificationError.auth': 'API anahtarı reddedildi.',
+  'verificationError.invalid-response': 'API geçersiz bir doğrulama sonucu döndürdü: {problems}',
+  'verificationError.not-initialized': 'Yapay zekâ servisi başlatılmadı. Bir API anahtarı gerekiyor.',
+  'verificationError.budget': '${limit} bütçesine ulaşıldı. Devam etmek için limiti yükseltin veya yeni bir kullanım oturumu başlatın.',
+  'verificationError.unknown': '{message}',
+
+  // AI usage
+  'usage.title': 'Yapay Zekâ Kullanımı',
+  'usage.tokensTitle': 'İstem / yanıt / arama temellendirme token\'ları',
+  'usage.session': 'Oturum:',
+  'usage.today': 'Bugün:',
+  'usage.calls': '{count} çağrı',
+  'usage.tokens': 'token',
+  'usage.none': 'yok',
+  'usage.sessionLimit': 'Oturum limiti $',
+  'usage.dailyLimit': 'Günlük limit $',
+  'usage.newSession': 'Yeni Oturum',
+  'usage.showModels': 'Modelleri Göster',
+  'usage.hideModels': 'Modelleri Gizle',
+  'usage.budgetExceeded.session': 'Oturum bütçesine ulaşıldı, bu yüzden doğrulama engellendi. Devam etmek için limiti artırın veya yeni bir oturum başlatın.',
+  'usage.budgetExceeded.daily': 'Günlük bütçeye ulaşıldı, bu yüzden doğrulama engellendi. Devam etmek için limiti artırın veya yeni bir oturum başlatın.',
+  'usage.noCalls': 'Henüz yapay zekâ çağrısı yok. Kullanım {since} tarihinden itibaren sayılıyor.',
+  'usage.model': 'Model',
+  'usage.callsColumn': 'Çağrı',
+  'usage.prompt': 'İstem',
+  'usage.response': 'Yanıt',
+  'usage.grounding': 'Temellendirme',
+  'usage.sessionCost': 'Oturum maliyeti',
+  'usage.todayColumn': 'Bugün',
+  'usage.footnote': 'Oturum {since} tarihinde başladı. Maliyetler liste fiyatlarından tahmindir; yerel ve bilinmeyen modeller ücretsiz sayılır.',
+
+  // Project workflow
+  'workflow.stage': 'Aşama',
+  'workflow.assignee': 'Sorumlu',
+  'workflow.unassigned': 'Atanmamış',
+  'workflow.followUp': 'Takip',
+  'workflow.followUpOn': 'Takip: {date}',
+  'workflow.tags': 'Etiketler',
+  'workflow.removeTag': '{tag} etiketini kaldır',
+  'workflow.addTags': 'Etiket ekleyin, virgülle ayırın',
+  'workflow.notes': 'Notlar',
+  'workflow.deleteNote': 'Notu sil',
+  'workflow.noNotes': 'Henüz not yok.',
+  'workflow.notePlaceholder': 'Not ekleyin',
+  'workflow.addNote': 'Not Ekle',
+  'board.priority': 'Öncelik',
+  'board.followUpDate': 'Takip tarihi',
+  'board.notes': '{count} not',
+  'board.edit': 'Düzenle',
+  'board.empty': 'Proje yok',
+
+  // Source quality
+  'sources.title': 'Kaynak Kalitesi',
+  'sources.hint': 'Her keşif kaynağının adaylarının nasıl sonuç verdiği; projelerini listelemek için bir kaynağa tıklayın',
+  'sources.empty': 'Bu yüklemede kaynak platform yok.',
+  'sources.source': 'Kaynak',
+  'sources.rows': 'Satır',
+  'sources.passed': 'Geçen',
+  'sources.passRate': 'Geçme oranı',
+  'sources.avgPotential': 'Ort. potansiyel',
+  'sources.avgPriority': 'Ort. öncelik',
+  'sources.verifiedFailedHint': 'Geçen projeler arasında doğrulanan / başarısız olan',
+  'sources.verifiedFailed': 'Doğrulanan / başarısız',
+  'sources.verificationSuccess': 'Doğrulama başarısı',
+
+  // Filter audit
+  'audit.title': 'Filtre Hunisi',
+  'audit.hint': 'Her adımdan sonra kalan projeler; neyi hariç tuttuğunu görmek için bir adıma tıklayın',
+  'audit.showExcluded': 'Hariç tutulan projeleri göster ({count})',
+  'audit.hideExcluded': 'Hariç tutulan projeleri gizle ({count})',
+  'audit.forcedCount': '{count} zorla dahil edildi',
+  'audit.search': 'Hariç tutulan projelerde ara',
+  'audit.searchPlaceholder': 'Ad veya nedende ara',
+  'audit.all': 'Tümü',
+  'audit.forceIncluded': 'zorla dahil',
+  'audit.undo': 'Geri Al',
+  'audit.include': 'Dahil Et',
+  'audit.includeHint': 'Bu projeyi yine de önceliklendir; etkin filtre profiline kaydedilir',
+  'audit.noMatches': 'Eşleşen hariç tutulmuş proje yok.',
+  'audit.showMore': 'Daha fazla göster ({count} kaldı)',
+  'audit.line': 'Satır {line}',
+  'audit.step.rows-in-file': 'Dosyadaki satırlar',
+  'audit.step.imported': 'İçe aktarılan satırlar',
+  'audit.step.unique': 'Benzersiz projeler',
+  'audit.step.score': 'Potansiyel skor ≥ {min}',
+  'audit.step.launch-status': 'Lansman durumu',
+  'audit.step.category': 'Kategori',
+  'audit.step.custom-rules': 'Özel kurallar',
+  'audit.step.force-included': 'Zorla dahil edilenler',
+  'exclusionStage.parse': 'Ayrıştırma hatası',
+  'exclusionStage.score': 'Potansiyel skor',
+  'exclusionStage.launch-status': 'Lansman durumu',
+  'exclusionStage.category': 'Kategori',
+  'exclusionStage.custom-rule': 'Özel kural',
+  'exclusionReason.score-below': 'Potansiyel skor {score}, {min} değerinin altında',
+  'exclusionReason.stage-not-allowed': '{stage} lansman aşamasına ("{status}") izin verilmiyor',
+  'exclusionReason.no-allowed-category': 'Kategorilerinin hiçbirine ({categories}) izin verilmiyor',
+  'exclusionReason.no-category': 'Kategorisi yok',
+  'exclusionReason.category-excluded': '{category} kategorisi hariç tutuluyor',
+  'exclusionReason.rule-not-matched': '{field}, /{pattern}/ ile eşleşmiyor',
+  'exclusionReason.rule-matched': '{field}, /{pattern}/ ile eşleşiyor',
+
+  // Charts
+  'charts.noData': 'Geçerli görünüm için veri yok.',
+  'charts.projectsUnit': 'proje',
+  'charts.funnelLeft': '{count} kaldı ({first} içinde %{share})',
+  'charts.funnelDropped': 'bu adımda {count} elendi',
+  'charts.noLaunches': 'Önümüzdeki {weeks} haftada tarihi bilinen lansman yok.',
+  'charts.download': '{chart} grafiğini {format} olarak indir',
+};
@@ -0,0 +1,33 @@
+import { Project, SummaryStatistics } from './analysis.model';
+
+export interface FieldTransition<T> {
+  from: T;
+  to: T;
+}
+
+// A project present in both runs with at least one tracked field changed
+export interface ProjectChange {
+  id: string;
+  projectName: string;
+  previous: Project;
+  current: Project;
+  potentialScoreDelta: number;
+  priorityScoreDelta: number;
+  launchStatus?: FieldTransition<string>;
+  verificationStatus?: FieldTransition<Project['verificationStatus']>;
+}
+
+/**
+ * Differences between two analysis results, matched by project ID. "Removed" projects were in
+ * the baseline's prioritized list but not in the current one, so they either disappeared from
+ * the discovery data or no longer pass the filter profile.
+ */
+export interface AnalysisDiff {
+  baselineName: string;
+  added: Project[];
+  removed: Project[];
+  changed: ProjectChange[];
+  unchangedCount: number;
+  // current minus baseline for every summary statistic
+  summaryDelta: SummaryStatistics;
+}
@@ -1,4 +1,14 @@
+import { PriorityBreakdownItem } from './scoring-model.model';
+import { VerificationDetails } from './verification.model';
+import { LaunchDatePrecision, LaunchStage, LaunchTimelineEntry } from './launch-lifecycle.model';
+import { WebsiteCrawl } from './website-crawl.model';
+import { ProjectWorkflow } from './workflow.model';
+import { SourcePlatformStats } from './source-platform.model';
+import { Locale } from './locale.model';
+
 export interface Project {
+  // Stable ID derived from the canonical website, or the normalized name when there is none
+  id: string;
   projectName: string;
   websiteUrl: string;
   sourcePlatform: string;
@@ -7,14 +17,47 @@ export interface Project {
   rawDescription: string;
   potentialScore: number;
   analystNote: string;
+  // Canonical source of each merged duplicate; only set on projects merged from several sources
+  sourcePlatforms?: string[];
+  // Number and date format of the file the project was read from
+  dataLocale?: Locale;
+  // Derived from categoryTags and launchStatus during analysis
+  categories?: string[];
+  launchStage?: LaunchStage;
+  expectedLaunchDate?: string | null;
+  launchDatePrecision?: LaunchDatePrecision | null;
+  // Untrusted text that looks like instructions to the AI, e.g. "description: overrides instructions"
+  injectionFlags?: string[];
   priorityScore?: number;
+  priorityBreakdown?: PriorityBreakdownItem[];
   // Verification fields
   verificationStatus: 'unverified' | 'verifying' | 'verified' | 'failed';
   verificationSummary?: string;
   verificationScore?: number;
+  verificationError?: string;
+  verificationDetails?: VerificationDetails;
   evidenceLinks?: { title: string; uri: string }[];
+  // Set by the crawler step before verification
+  websiteCrawl?: WebsiteCrawl;
+  // Excluded by the filter profile but included by the analyst
+  forceIncluded?: boolean;
+  // Only set on exported and re-imported projects; the live state is kept by ProjectWorkflowService
+  workflow?: ProjectWorkflow;
 }
 
+// Project fields that can be read from a CSV column
+export type MappableField = keyof Pick<Project,
+  'projectName' | 'websiteUrl' | 'sourcePlatform' | 'categoryTags' | 'launchStatus' | 'rawDescription' | 'potentialScore' | 'analystNote'>;
+
+export const MAPPABLE_FIELDS: MappableField[] = [
+  'projectName', 'websiteUrl', 'sourcePlatform', 'categoryTags', 'launchStatus', 'rawDescription', 'potentialScore', 'analystNote',
+];
+
+export const REQUIRED_FIELDS: MappableField[] = ['projectName', 'potentialScore'];
+
+// The Project field read from each file column, by column index; null columns are ignored
+export type ColumnMapping = (MappableField | null)[];
+
 export interface SummaryStatistics {
   totalProjects: number;
   averagePotentialScore: number;
@@ -28,10 +71,126 @@ export interface ChartData {
   value: number;
 }
 
-export interface AnalysisResult {
+export interface ProjectSummary {
   summaryStatistics: SummaryStatistics;
   categoryAnalysis: ChartData[];
   launchStatusAnalysis: ChartData[];
   potentialScoreDistribution: ChartData[];
+  sourcePlatformAnalysis: ChartData[];
+  // Projects expected to launch in the coming weeks, by date
+  launchTimeline: LaunchTimelineEntry[];
+}
+
+export interface AnalysisResult extends ProjectSummary {
   prioritizedProjects: Project[];
-}
\ No newline at end of file
+  duplicateGroups: DuplicateGroup[];
+  // Per discovery source, most uploaded rows first
+  sourceAnalysis: SourcePlatformStats[];
+  // Projects dropped by the filter profile, in the order of the filter steps
+  excludedProjects: ExcludedProject[];
+  filterFunnel: FilterFunnelStep[];
+}
+
+// Filter step that dropped a project; 'parse' rows never became projects
+export type ExclusionStage = 'parse' | 'score' | 'launch-status' | 'category' | 'custom-rule';
+
+export const EXCLUSION_STAGE_LABELS: Record<ExclusionStage, string> = {
+  parse: 'Parse error',
+  score: 'Potential score',
+  'launch-status': 'Launch status',
+  category: 'Category',
+  'custom-rule': 'Custom rule',
+};
+
+// Why a filter step dropped a project; parse errors keep the code of their CSV diagnostic
+export type ExclusionReasonCode =
+  | CsvIssueCode
+  | 'score-below'
+  | 'stage-not-allowed'
+  | 'no-allowed-category'
+  | 'no-category'
+  | 'category-excluded'
+  | 'rule-not-matched'
+  | 'rule-matched';
+
+export interface ExcludedProject {
+  // Missing for rows that could not be parsed
+  project?: Project;
+  projectName: string;
+  stage: ExclusionStage;
+  // The rule that excluded the project, e.g. 'score-below' with { score: 4, min: 6 }
+  reason: CodedMessage<ExclusionReasonCode>;
+  // 1-based line in the uploaded file, for parse errors
+  line?: number;
+  // Prioritized anyway because the analyst force-included it
+  forceIncluded: boolean;
+}
+
+export type FunnelStepCode =
+  | 'rows-in-file'
+  | 'imported'
+  | 'unique'
+  | 'score'
+  | 'launch-status'
+  | 'category'
+  | 'custom-rules'
+  | 'force-included';
+
+// Number of projects left after each step of the analysis, starting with the imported rows
+export interface FilterFunnelStep {
+  // e.g. 'score' with { min: 6 }
+  step: CodedMessage<FunnelStepCode>;
+  count: number;
+  // Set on the filter steps, so the excluded list can be narrowed to a step
+  stage?: ExclusionStage;
+}
+
+// Rows that were merged into a single project by duplicate detection
+export interface DuplicateGroup {
+  id: string;
+  projectName: string;
+  memberNames: string[];
+  websites: string[];
+  reasons: ('website' | 'name')[];
+}
+
+// A message by stable code and parameters; the UI translates it and the CLI prints it in English
+export interface CodedMessage<Code extends string> {
+  code: Code;
+  params?: Record<string, string | number>;
+}
+
+export type CsvIssueCode =
+  // Skipped rows
+  | 'unclosed-quote'
+  | 'empty-name'
+  // Rows imported with corrections
+  | 'character-after-quote'
+  | 'quote-in-value'
+  | 'missing-values'
+  | 'extra-values'
+  | 'invalid-score';
+
+export interface CsvParseDiagnostic {
+  // 1-based line number in the file where the row starts
+  line: number;
+  // 'error' rows were skipped, 'warning' rows were imported with corrections
+  severity: 'error' | 'warning';
+  reason: CodedMessage<CsvIssueCode>;
+}
+
+export interface CsvParseResult {
+  projects: Project[];
+  diagnostics: CsvParseDiagnostic[];
+  delimiter: string;
+  encoding: string;
+  totalRows: number;
+}
+
+// The start of a CSV file, enough to map its columns before the whole file is read
+export interface CsvFilePreview {
+  headers: string[];
+  sampleRows: string[][];
+  delimiter: string;
+  encoding: string;
+}
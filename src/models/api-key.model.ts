@@ -0,0 +1,29 @@
+import { LlmSettings } from '../services/llm/llm-provider';
+import { UsageLedger } from './llm-usage.model';
+
+export type ApiKeyStorageMode = 'local' | 'session' | 'encrypted';
+
+export const API_KEY_STORAGE_MODES: ApiKeyStorageMode[] = ['local', 'session', 'encrypted'];
+
+// AES-GCM ciphertext of a key; all fields are base64
+export interface EncryptedSecret {
+  ciphertext: string;
+  iv: string;
+  salt: string;
+  iterations: number;
+}
+
+export interface StoredApiKey {
+  id: string;
+  name: string;
+  storage: ApiKeyStorageMode;
+  // Provider, model and endpoint the key is used with
+  settings: LlmSettings;
+  createdAt: string;
+  // Set for 'local' and 'session' keys; empty for keyless providers
+  value?: string;
+  // Set for 'encrypted' keys
+  encrypted?: EncryptedSecret;
+  // Token usage, cost and budget of the calls made with the key
+  usage: UsageLedger;
+}
@@ -0,0 +1,45 @@
+export interface CategoryDefinition {
+  // Canonical name shown in the table, charts and filters
+  name: string;
+  // Other spellings found in discovery data; matched ignoring case, spaces, dashes and Turkish characters
+  aliases: string[];
+  // Broader group the category belongs to, e.g. GameFi belongs to Gaming
+  parent?: string;
+}
+
+export const CATEGORY_TAXONOMY: CategoryDefinition[] = [
+  { name: 'Gaming', aliases: ['Game', 'Games', 'Web3 Gaming', 'Blockchain Gaming', 'Oyun', 'Oyunlar'] },
+  { name: 'GameFi', aliases: ['Game-Fi', 'P2E', 'Play to Earn', 'Play-and-Earn', 'Play and Earn'], parent: 'Gaming' },
+  { name: 'Metaverse', aliases: ['Virtual World', 'Virtual Worlds', 'Sanal Evren'] },
+
+  { name: 'DeFi', aliases: ['Decentralized Finance', 'Merkeziyetsiz Finans'] },
+  { name: 'DEX', aliases: ['Decentralized Exchange', 'AMM', 'Swap'], parent: 'DeFi' },
+  { name: 'Lending', aliases: ['Borrowing', 'Money Market', 'Borç Verme'], parent: 'DeFi' },
+  { name: 'Derivatives', aliases: ['Perps', 'Perpetuals', 'Perpetual', 'Options'], parent: 'DeFi' },
+  { name: 'Yield', aliases: ['Yield Farming', 'Yield Aggregator', 'Vaults'], parent: 'DeFi' },
+  { name: 'Liquid Staking', aliases: ['LSD', 'LST', 'Restaking', 'Staking'], parent: 'DeFi' },
+  { name: 'Stablecoin', aliases: ['Stablecoins', 'Stable Coin'], parent: 'DeFi' },
+  { name: 'RWA', aliases: ['Real World Assets', 'Real-World Assets', 'Tokenization'], parent: 'DeFi' },
+
+  { name: 'AI', aliases: ['Artificial Intelligence', 'Yapay Zeka', 'Machine Learning', 'ML'] },
+  { name: 'AI Agents', aliases: ['AI Agent', 'Agents', 'Autonomous Agents'], parent: 'AI' },
+
+  { name: 'DePIN', aliases: ['Decentralized Physical Infrastructure', 'Physical Infrastructure'] },
+
+  { name: 'NFT', aliases: ['NFTs', 'Non-Fungible Token', 'Non-Fungible Tokens'] },
+  { name: 'NFT Marketplace', aliases: ['NFT Market'], parent: 'NFT' },
+  { name: 'Collectibles', aliases: ['PFP', 'Digital Collectibles'], parent: 'NFT' },
+
+  { name: 'SocialFi', aliases: ['Social-Fi', 'Social', 'Decentralized Social'] },
+  { name: 'Meme', aliases: ['Memecoin', 'Meme Coin', 'Memecoins', 'Meme Coins'] },
+  { name: 'DAO', aliases: ['DAOs', 'Governance'] },
+
+  { name: 'Infrastructure', aliases: ['Infra', 'Altyapı', 'Tooling', 'Developer Tools'] },
+  { name: 'Layer 1', aliases: ['L1', 'Layer1', 'Layer-1'], parent: 'Infrastructure' },
+  { name: 'Layer 2', aliases: ['L2', 'Layer2', 'Layer-2', 'Rollup', 'Rollups'], parent: 'Infrastructure' },
+  { name: 'Oracle', aliases: ['Oracles'], parent: 'Infrastructure' },
+  { name: 'Bridge', aliases: ['Bridges', 'Cross-Chain', 'Interoperability'], parent: 'Infrastructure' },
+  { name: 'Wallet', aliases: ['Wallets', 'Cüzdan'], parent: 'Infrastructure' },
+  { name: 'Zero Knowledge', aliases: ['ZK', 'ZKP', 'Zero-Knowledge'], parent: 'Infrastructure' },
+  { name: 'Privacy', aliases: ['Gizlilik'] },
+];
@@ -0,0 +1,27 @@
+// Colors used by the D3 chart components; the default matches the app's slate dark theme
+export interface ChartTheme {
+  text: string;
+  mutedText: string;
+  grid: string;
+  // Fill behind exported PNGs and around pie slices
+  background: string;
+  // Series colors, assigned in order
+  palette: string[];
+}
+
+export const DARK_CHART_THEME: ChartTheme = {
+  text: '#e2e8f0',
+  mutedText: '#94a3b8',
+  grid: '#334155',
+  background: '#1e293b',
+  palette: ['#818cf8', '#60a5fa', '#34d399', '#fbbf24', '#f472b6', '#a78bfa', '#22d3ee', '#fb923c', '#94a3b8'],
+};
+
+export interface ScatterPoint {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  // Points of a group share a color and legend entry
+  group: string;
+}
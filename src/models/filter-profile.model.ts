@@ -0,0 +1,44 @@
+import { Project } from './analysis.model';
+import { LaunchStage } from './launch-lifecycle.model';
+
+export type FilterableField = keyof Pick<Project,
+  'projectName' | 'websiteUrl' | 'sourcePlatform' | 'categoryTags' | 'launchStatus' | 'rawDescription' | 'analystNote'>;
+
+export const FILTERABLE_FIELDS: FilterableField[] = [
+  'projectName', 'websiteUrl', 'sourcePlatform', 'categoryTags', 'launchStatus', 'rawDescription', 'analystNote',
+];
+
+export interface FilterRegexRule {
+  field: FilterableField;
+  pattern: string;
+  // 'require' keeps only matching projects, 'exclude' drops matching projects
+  action: 'require' | 'exclude';
+}
+
+export interface FilterProfile {
+  id: string;
+  name: string;
+  minPotentialScore: number;
+  // A project passes the launch status step if its lifecycle stage is allowed or its raw status matches any pattern
+  allowedStages: LaunchStage[];
+  allowedStatusPatterns: string[];
+  // An empty list accepts every category
+  allowedCategories: string[];
+  excludedCategories: string[];
+  regexRules: FilterRegexRule[];
+  // Projects prioritized even though a rule above excludes them, by project ID
+  forceIncludedIds: string[];
+}
+
+export const DEFAULT_FILTER_PROFILE: FilterProfile = {
+  id: 'default',
+  name: 'Alpha Hunting (default)',
+  minPotentialScore: 6,
+  // Dates and quarters like '2025-08-31' or '2025-Q3' normalize to planned, so no pattern is needed for them
+  allowedStages: ['planned', 'development', 'testnet', 'alpha-beta', 'live'],
+  allowedStatusPatterns: [],
+  allowedCategories: ['GameFi', 'DeFi', 'DePIN', 'NFT', 'AI', 'Metaverse'],
+  excludedCategories: [],
+  regexRules: [],
+  forceIncludedIds: [],
+};
@@ -0,0 +1,33 @@
+export type LaunchStage = 'planned' | 'development' | 'testnet' | 'alpha-beta' | 'live' | 'unknown';
+
+// In lifecycle order
+export const LAUNCH_STAGES: LaunchStage[] = ['planned', 'development', 'testnet', 'alpha-beta', 'live', 'unknown'];
+
+export const LAUNCH_STAGE_LABELS: Record<LaunchStage, string> = {
+  planned: 'Planned',
+  development: 'Development',
+  testnet: 'Testnet',
+  'alpha-beta': 'Alpha / Beta',
+  live: 'Live',
+  unknown: 'Unknown',
+};
+
+// How exact a parsed launch date is; '2025-Q3' has quarter precision and is stored as 2025-07-01
+export type LaunchDatePrecision = 'day' | 'month' | 'quarter' | 'half' | 'year';
+
+export interface LaunchInfo {
+  stage: LaunchStage;
+  // ISO date (YYYY-MM-DD) of the start of the expected launch period, if the status contains one
+  expectedDate: string | null;
+  datePrecision: LaunchDatePrecision | null;
+}
+
+// How far ahead the launch timeline looks, starting from the beginning of the current week
+export const LAUNCH_TIMELINE_WEEKS = 12;
+
+export interface LaunchTimelineEntry {
+  id: string;
+  projectName: string;
+  date: string;
+  precision: LaunchDatePrecision;
+}
@@ -0,0 +1,65 @@
+// Token counts and estimated cost of one or more LLM calls
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  // Output tokens, including the thinking tokens of reasoning models
+  responseTokens: number;
+  // Search results the provider added to the prompt when grounding with web search
+  groundingTokens: number;
+  groundedRequests: number;
+  costUsd: number;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  requests: 0,
+  promptTokens: 0,
+  responseTokens: 0,
+  groundingTokens: 0,
+  groundedRequests: 0,
+  costUsd: 0,
+};
+
+// Totals for each model, keyed by model name
+export type UsageByModel = Record<string, UsageTotals>;
+
+export interface UsageBudget {
+  // Verification stops once the estimated cost reaches a limit; null means no limit
+  sessionLimitUsd: number | null;
+  dailyLimitUsd: number | null;
+}
+
+export interface UsageLedger {
+  sessionStartedAt: string;
+  session: UsageByModel;
+  // Keyed by local date (YYYY-MM-DD)
+  days: Record<string, UsageByModel>;
+  budget: UsageBudget;
+}
+
+export function emptyUsageLedger(): UsageLedger {
+  return {
+    sessionStartedAt: new Date().toISOString(),
+    session: {},
+    days: {},
+    budget: { sessionLimitUsd: null, dailyLimitUsd: null },
+  };
+}
+
+export interface ModelPricing {
+  inputPerMillionUsd: number;
+  outputPerMillionUsd: number;
+  // Charged once per request that used search grounding
+  groundedRequestUsd: number;
+}
+
+// Published list prices in USD; the cost shown in the app is an estimate based on these
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-pro': { inputPerMillionUsd: 1.25, outputPerMillionUsd: 10, groundedRequestUsd: 0.035 },
+  'gemini-2.5-flash': { inputPerMillionUsd: 0.3, outputPerMillionUsd: 2.5, groundedRequestUsd: 0.035 },
+  'gemini-2.5-flash-lite': { inputPerMillionUsd: 0.1, outputPerMillionUsd: 0.4, groundedRequestUsd: 0.035 },
+  'gemini-2.0-flash': { inputPerMillionUsd: 0.1, outputPerMillionUsd: 0.4, groundedRequestUsd: 0.035 },
+  'gpt-4o': { inputPerMillionUsd: 2.5, outputPerMillionUsd: 10, groundedRequestUsd: 0 },
+  'gpt-4o-mini': { inputPerMillionUsd: 0.15, outputPerMillionUsd: 0.6, groundedRequestUsd: 0 },
+  'gpt-4.1': { inputPerMillionUsd: 2, outputPerMillionUsd: 8, groundedRequestUsd: 0 },
+  'gpt-4.1-mini': { inputPerMillionUsd: 0.4, outputPerMillionUsd: 1.6, groundedRequestUsd: 0 },
+};
@@ -0,0 +1,21 @@
+export type Locale = 'en' | 'tr';
+
+export const LOCALES: Locale[] = ['en', 'tr'];
+
+// Shown in the language switch, each in its own language
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  tr: 'Türkçe',
+};
+
+// Named in AI prompts that ask for an answer in the selected language
+export const LOCALE_LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  tr: 'Turkish',
+};
+
+// Number and date conventions of a data file, shown when confirming the column mapping
+export const DATA_LOCALE_EXAMPLES: Record<Locale, string> = {
+  en: '1,234.5 · 08/31/2025',
+  tr: '1.234,5 · 31.08.2025',
+};
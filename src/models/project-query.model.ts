@@ -0,0 +1,45 @@
+import { ChartData, Project } from './analysis.model';
+import { LaunchStage } from './launch-lifecycle.model';
+
+export type ProjectSortColumn = keyof Pick<Project,
+  'projectName' | 'categoryTags' | 'launchStatus' | 'potentialScore' | 'priorityScore' | 'verificationScore'>;
+
+export type VerificationStatus = Project['verificationStatus'];
+
+export const VERIFICATION_STATUSES: VerificationStatus[] = ['unverified', 'verifying', 'verified', 'failed'];
+
+// The table view over the prioritized projects; empty facet lists mean "any"
+export interface ProjectQuery {
+  // Whitespace separated terms, all of which must appear in the name, description or analyst note
+  search: string;
+  categories: string[];
+  launchStages: LaunchStage[];
+  verificationStatuses: VerificationStatus[];
+  sourcePlatforms: string[];
+  minScore: number | null;
+  maxScore: number | null;
+  sortBy: ProjectSortColumn;
+  sortDirection: 'asc' | 'desc';
+}
+
+export const DEFAULT_PROJECT_QUERY: ProjectQuery = {
+  search: '',
+  categories: [],
+  launchStages: [],
+  verificationStatuses: [],
+  sourcePlatforms: [],
+  minScore: null,
+  maxScore: null,
+  sortBy: 'priorityScore',
+  sortDirection: 'desc',
+};
+
+// Available facet values with the number of projects having each one; launch stages are labelled by id
+export interface ProjectFacets {
+  categories: ChartData[];
+  launchStages: ChartData[];
+  verificationStatuses: ChartData[];
+  sourcePlatforms: ChartData[];
+}
+
+export const PAGE_SIZES = [25, 50, 100];
@@ -0,0 +1,53 @@
+import { LaunchStage } from './launch-lifecycle.model';
+
+export type PriorityFactor = 'potential' | 'launch' | 'category' | 'verification';
+
+export const PRIORITY_FACTORS: PriorityFactor[] = ['potential', 'launch', 'category', 'verification'];
+
+export interface ScoreTier {
+  // Keywords matched against the raw field; the first matching tier wins
+  match: string[];
+  score: number;
+}
+
+export interface ScoringModel {
+  weights: Record<PriorityFactor, number>;
+  includeVerification: boolean;
+  // Launch factor value (0-10) for each lifecycle stage
+  launchStageScores: Record<LaunchStage, number>;
+  categoryTiers: ScoreTier[];
+  defaultCategoryScore: number;
+  // Verification factor value (0-10) used for projects that have not been verified yet
+  unverifiedScore: number;
+}
+
+export interface PriorityBreakdownItem {
+  factor: PriorityFactor;
+  value: number;
+  weight: number;
+  contribution: number;
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  weights: {
+    potential: 0.4,
+    launch: 0.3,
+    category: 0.3,
+    verification: 0.2,
+  },
+  includeVerification: false,
+  launchStageScores: {
+    planned: 10,
+    development: 8,
+    testnet: 8,
+    'alpha-beta': 7,
+    live: 5,
+    unknown: 3,
+  },
+  categoryTiers: [
+    { match: ['GameFi', 'DePIN', 'AI'], score: 10 },
+    { match: ['DeFi', 'NFT', 'Metaverse'], score: 7 },
+  ],
+  defaultCategoryScore: 5,
+  unverifiedScore: 5,
+};
@@ -0,0 +1,41 @@
+export interface SourcePlatformDefinition {
+  // Canonical name shown in charts, filters and the source analysis
+  name: string;
+  // Other spellings and domains found in discovery data; matched ignoring case, spaces and punctuation
+  aliases: string[];
+}
+
+export const SOURCE_PLATFORMS: SourcePlatformDefinition[] = [
+  { name: 'X', aliases: ['Twitter', 'X (Twitter)', 'Twitter / X', 'x.com', 'twitter.com'] },
+  { name: 'DappRadar', aliases: ['Dapp Radar', 'dappradar.com'] },
+  { name: 'CryptoRank', aliases: ['Crypto Rank', 'cryptorank.io'] },
+  { name: 'CoinMarketCap', aliases: ['CMC', 'Coin Market Cap', 'coinmarketcap.com'] },
+  { name: 'CoinGecko', aliases: ['Coin Gecko', 'coingecko.com'] },
+  { name: 'ICO Drops', aliases: ['ICODrops', 'icodrops.com'] },
+  { name: 'DefiLlama', aliases: ['DeFi Llama', 'defillama.com'] },
+  { name: 'Galxe', aliases: ['Galxe Quest', 'galxe.com'] },
+  { name: 'Zealy', aliases: ['Crew3', 'zealy.io'] },
+  { name: 'Telegram', aliases: ['TG', 't.me'] },
+  { name: 'Discord', aliases: ['discord.gg', 'discord.com'] },
+  { name: 'GitHub', aliases: ['Github', 'github.com'] },
+  { name: 'Product Hunt', aliases: ['ProductHunt', 'producthunt.com'] },
+];
+
+// How the leads of one discovery source fared in the analysis
+export interface SourcePlatformStats {
+  source: string;
+  // Uploaded rows naming this source, before duplicates are merged
+  rawCount: number;
+  // Projects from this source that passed the filter profile
+  passedCount: number;
+  // passedCount / rawCount, between 0 and 1
+  passRate: number;
+  // Over all uploaded rows of the source
+  averagePotentialScore: number;
+  // Over the projects that passed; null when none did
+  averagePriorityScore: number | null;
+  verifiedCount: number;
+  failedCount: number;
+  // Share of finished verifications that succeeded; null when none have finished
+  verificationSuccessRate: number | null;
+}
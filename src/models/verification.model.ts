@@ -0,0 +1,29 @@
+export type TeamStatus = 'doxxed' | 'partially-doxxed' | 'anonymous' | 'unknown';
+
+export const TEAM_STATUSES: TeamStatus[] = ['doxxed', 'partially-doxxed', 'anonymous', 'unknown'];
+
+export interface SocialAccount {
+  platform: string;
+  url: string;
+}
+
+export interface TokenMention {
+  symbol: string | null;
+  contractAddress: string | null;
+  chain: string | null;
+}
+
+export interface VerificationDetails {
+  teamStatus: TeamStatus;
+  socialAccounts: SocialAccount[];
+  tokenMentions: TokenMention[];
+  fundingSignals: string[];
+  redFlags: string[];
+  // ISO date (YYYY-MM-DD or YYYY-MM) of the most recent public activity found
+  lastActivityDate: string | null;
+}
+
+export interface VerificationReport extends VerificationDetails {
+  summary: string;
+  confidenceScore: number;
+}
@@ -0,0 +1,36 @@
+// Response of the local crawler proxy (server/crawl-proxy.js) for one website
+export interface WebsiteCrawl {
+  url: string;
+  // Address of the last response after following redirects
+  finalUrl: string;
+  // HTTP status of the last response, null when the site could not be reached
+  status: number | null;
+  ok: boolean;
+  redirects: { url: string; status: number; location: string }[];
+  // Null for plain http sites
+  tls: { valid: boolean; error: string | null; issuer: string | null; validTo: string | null } | null;
+  title: string | null;
+  description: string | null;
+  socials: CrawledSocials;
+  // Network or protocol failure, e.g. a DNS error or timeout
+  error: string | null;
+  crawledAt: string;
+  durationMs: number;
+}
+
+export interface CrawledSocials {
+  x: string[];
+  discord: string[];
+  telegram: string[];
+  github: string[];
+}
+
+export interface CrawlerSettings {
+  enabled: boolean;
+  proxyUrl: string;
+}
+
+export const DEFAULT_CRAWLER_SETTINGS: CrawlerSettings = {
+  enabled: false,
+  proxyUrl: 'http://127.0.0.1:8787',
+};
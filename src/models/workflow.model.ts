@@ -0,0 +1,39 @@
+export type PipelineStage = 'new' | 'reviewing' | 'contacted' | 'in-talks' | 'partnered' | 'rejected';
+
+// In outreach order; the board shows one column per stage
+export const PIPELINE_STAGES: PipelineStage[] = ['new', 'reviewing', 'contacted', 'in-talks', 'partnered', 'rejected'];
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
+  new: 'New',
+  reviewing: 'Reviewing',
+  contacted: 'Contacted',
+  'in-talks': 'In Talks',
+  partnered: 'Partnered',
+  rejected: 'Rejected',
+};
+
+export interface WorkflowNote {
+  createdAt: string;
+  text: string;
+}
+
+// An analyst's outreach state for one project, kept across uploads by the project's stable ID
+export interface ProjectWorkflow {
+  stage: PipelineStage;
+  tags: string[];
+  assignee: string;
+  // ISO date (YYYY-MM-DD), null when no follow-up is planned
+  followUpDate: string | null;
+  // Oldest first
+  notes: WorkflowNote[];
+  updatedAt: string;
+}
+
+export const EMPTY_WORKFLOW: ProjectWorkflow = {
+  stage: 'new',
+  tags: [],
+  assignee: '',
+  followUpDate: null,
+  notes: [],
+  updatedAt: '',
+};
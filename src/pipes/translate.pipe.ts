@@ -0,0 +1,19 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { I18nService } from '../services/i18n.service';
+
+/**
+ * `{{ 'upload.title' | translate }}` or `{{ 'table.verifyAll' | translate: { count: n } }}`.
+ * Impure so the text follows language switches; the lookup reads the locale signal.
+ */
+@Pipe({
+  name: 'translate',
+  standalone: true,
+  pure: false,
+})
+export class TranslatePipe implements PipeTransform {
+  private i18n = inject(I18nService);
+
+  transform(key: string, params?: Record<string, string | number>): string {
+    return this.i18n.translate(key, params);
+  }
+}
@@ -0,0 +1,54 @@
+import { AnalysisResult, SummaryStatistics } from '../models/analysis.model';
+import { AnalysisDiff, ProjectChange } from '../models/analysis-diff.model';
+
+// Priority scores are rounded to two decimals in the table, smaller differences are noise
+const PRIORITY_EPSILON = 0.005;
+
+export function diffAnalysisResults(baseline: AnalysisResult, current: AnalysisResult, baselineName: string): AnalysisDiff {
+  const previousById = new Map(baseline.prioritizedProjects.map(p => [p.id, p]));
+  const currentIds = new Set(current.prioritizedProjects.map(p => p.id));
+
+  const added = current.prioritizedProjects.filter(p => !previousById.has(p.id));
+  const removed = baseline.prioritizedProjects.filter(p => !currentIds.has(p.id));
+  const changed: ProjectChange[] = [];
+  let unchangedCount = 0;
+
+  current.prioritizedProjects.forEach(project => {
+    const previous = previousById.get(project.id);
+    if (!previous) return;
+
+    const change: ProjectChange = {
+      id: project.id,
+      projectName: project.projectName,
+      previous,
+      current: project,
+      potentialScoreDelta: project.potentialScore - previous.potentialScore,
+      priorityScoreDelta: (project.priorityScore ?? 0) - (previous.priorityScore ?? 0),
+    };
+    if (previous.launchStatus !== project.launchStatus) {
+      change.launchStatus = { from: previous.launchStatus, to: project.launchStatus };
+    }
+    if (previous.verificationStatus !== project.verificationStatus) {
+      change.verificationStatus = { from: previous.verificationStatus, to: project.verificationStatus };
+    }
+
+    const hasChanged = change.potentialScoreDelta !== 0 || Math.abs(change.priorityScoreDelta) >= PRIORITY_EPSILON ||
+      change.launchStatus !== undefined || change.verificationStatus !== undefined;
+    if (hasChanged) {
+      changed.push(change);
+    } else {
+      unchangedCount++;
+    }
+  });
+
+  changed.sort((a, b) => Math.abs(b.priorityScoreDelta) - Math.abs(a.priorityScoreDelta));
+
+  const summaryDelta = Object.fromEntries(
+    (Object.keys(current.summaryStatistics) as (keyof SummaryStatistics)[]).map(key => [
+      key,
+      parseFloat((current.summaryStatistics[key] - baseline.summaryStatistics[key]).toFixed(2)),
+    ])
+  ) as unknown as SummaryStatistics;
+
+  return { baselineName, added, removed, changed, unchangedCount, summaryDelta };
+}
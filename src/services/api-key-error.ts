@@ -0,0 +1,35 @@
+import { toVerificationError } from './verification-error';
+
+export type ApiKeyErrorKind =
+  | 'invalid'
+  | 'quota'
+  | 'network'
+  | 'unknown';
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public readonly kind: ApiKeyErrorKind) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+/** Maps a failed key check to one of the categories shown on the setup screen. */
+export function toApiKeyError(error: unknown): ApiKeyError {
+  if (error instanceof ApiKeyError) return error;
+
+  const verificationError = toVerificationError(error);
+  switch (verificationError.kind) {
+    case 'auth':
+      return new ApiKeyError('The API key is invalid or has no access to this model.', 'invalid');
+    case 'rate-limit':
+      return new ApiKeyError('The API key works, but its quota is exhausted or it is being rate limited.', 'quota');
+    case 'network':
+      return new ApiKeyError('The API could not be reached. Check the network connection and the base URL.', 'network');
+    default:
+      // Gemini reports unknown models and malformed keys as 400 / 404
+      if (/\b(400|404)\b|INVALID_ARGUMENT|NOT_FOUND/.test(verificationError.message)) {
+        return new ApiKeyError(`The API key or model was rejected: ${verificationError.message}`, 'invalid');
+      }
+      return new ApiKeyError(`The key could not be checked: ${verificationError.message}`, 'unknown');
+  }
+}
@@ -0,0 +1,155 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { ApiKeyStorageMode, StoredApiKey } from '../models/api-key.model';
+import { UsageLedger, emptyUsageLedger } from '../models/llm-usage.model';
+import { DEFAULT_LLM_SETTINGS, LlmSettings } from './llm/llm-provider';
+import { createLlmProvider } from './llm/create-llm-provider';
+import { ApiKeyError, toApiKeyError } from './api-key-error';
+import { decryptSecret, encryptSecret } from './secret-crypto';
+
+const KEYS_STORAGE_KEY = 'alpha-api-keys';
+const ACTIVE_KEY_STORAGE_KEY = 'alpha-active-api-key';
+const LEGACY_KEY_STORAGE_KEY = 'gemini-api-key';
+const VALIDATION_TIMEOUT_MS = 15_000;
+
+export interface NewApiKey {
+  name: string;
+  value: string;
+  storage: ApiKeyStorageMode;
+  settings: LlmSettings;
+  // Required for 'encrypted' keys
+  passphrase?: string;
+}
+
+/**
+ * Keeps the named API keys. Session-only keys live in sessionStorage and are gone once the tab
+ * is closed; the others live in localStorage, either as entered or encrypted with a passphrase.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ApiKeyService {
+  readonly keys = signal<StoredApiKey[]>(this.loadKeys());
+  readonly activeKeyId = signal<string | null>(localStorage.getItem(ACTIVE_KEY_STORAGE_KEY));
+
+  readonly activeKey = computed(() => this.keys().find(k => k.id === this.activeKeyId()) ?? null);
+
+  /**
+   * Reads a key's value, decrypting it when needed. Throws a WrongPassphraseError when the
+   * passphrase does not match.
+   */
+  public async reveal(id: string, passphrase = ''): Promise<string> {
+    const key = this.keys().find(k => k.id === id);
+    if (!key) throw new Error('The API key no longer exists.');
+    if (key.encrypted) {
+      if (!passphrase) throw new Error('Enter the passphrase to unlock this key.');
+      return decryptSecret(key.encrypted, passphrase);
+    }
+    return key.value ?? '';
+  }
+
+  // Saves a key and makes it the active one; a key with the same name is replaced
+  public async add(newKey: NewApiKey): Promise<StoredApiKey> {
+    const name = newKey.name.trim();
+    if (!name) throw new Error('Give the API key a name.');
+    if (newKey.storage === 'encrypted' && !newKey.passphrase) {
+      throw new Error('A passphrase is required to encrypt the API key.');
+    }
+
+    const existing = this.keys().find(k => k.name.toLowerCase() === name.toLowerCase());
+    const key: StoredApiKey = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      storage: newKey.storage,
+      settings: newKey.settings,
+      createdAt: new Date().toISOString(),
+      // Replacing a key keeps what was already spent with it
+      usage: existing?.usage ?? emptyUsageLedger(),
+      ...(newKey.storage === 'encrypted'
+        ? { encrypted: await encryptSecret(newKey.value, newKey.passphrase!) }
+        : { value: newKey.value }),
+    };
+    this.keys.update(keys => existing ? keys.map(k => k.id === key.id ? key : k) : [...keys, key]);
+    this.persist();
+    this.setActive(key.id);
+    return key;
+  }
+
+  public remove(id: string): void {
+    this.keys.update(keys => keys.filter(k => k.id !== id));
+    this.persist();
+    if (this.activeKeyId() === id) this.setActive(null);
+  }
+
+  public setUsage(id: string, usage: UsageLedger): void {
+    this.keys.update(keys => keys.map(k => k.id === id ? { ...k, usage } : k));
+    this.persist();
+  }
+
+  public setActive(id: string | null): void {
+    this.activeKeyId.set(id);
+    if (id) {
+      localStorage.setItem(ACTIVE_KEY_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_KEY_STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Makes a cheap test call with the key and throws an ApiKeyError saying why it failed, so a
+   * typo shows up on the setup screen rather than with the first verification.
+   */
+  public async validate(value: string, settings: LlmSettings): Promise<void> {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const provider = createLlmProvider(settings, value);
+      await Promise.race([
+        provider.validate(),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new ApiKeyError('The API did not answer in time.', 'network')), VALIDATION_TIMEOUT_MS);
+        }),
+      ]);
+    } catch (error) {
+      throw toApiKeyError(error);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private persist(): void {
+    const keys = this.keys();
+    localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys.filter(k => k.storage !== 'session')));
+    sessionStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys.filter(k => k.storage === 'session')));
+  }
+
+  private loadKeys(): StoredApiKey[] {
+    const keys = [...this.readKeys(localStorage), ...this.readKeys(sessionStorage)];
+
+    // Earlier versions kept a single unnamed Gemini key in plaintext
+    const legacy = localStorage.getItem(LEGACY_KEY_STORAGE_KEY);
+    if (legacy !== null) {
+      const key: StoredApiKey = {
+        id: crypto.randomUUID(),
+        name: 'Default',
+        storage: 'local',
+        settings: DEFAULT_LLM_SETTINGS,
+        createdAt: new Date().toISOString(),
+        value: legacy,
+        usage: emptyUsageLedger(),
+      };
+      keys.push(key);
+      localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys.filter(k => k.storage !== 'session')));
+      localStorage.setItem(ACTIVE_KEY_STORAGE_KEY, key.id);
+      localStorage.removeItem(LEGACY_KEY_STORAGE_KEY);
+    }
+    return keys;
+  }
+
+  private readKeys(storage: Storage): StoredApiKey[] {
+    try {
+      const keys = JSON.parse(storage.getItem(KEYS_STORAGE_KEY) || '[]');
+      return Array.isArray(keys) ? keys.filter(k => typeof k?.id === 'string' && typeof k?.name === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { CATEGORY_TAXONOMY, CategoryDefinition } from '../models/category-taxonomy.model';
+import { matchKey } from './match-key';
+
+// Canonical name by normalized name or alias, e.g. 'gamefi', 'p2e' and 'playtoearn' all give 'GameFi'
+const CATEGORY_BY_KEY = new Map<string, CategoryDefinition>(
+  CATEGORY_TAXONOMY.flatMap(category => [category.name, ...category.aliases].map(alias => [matchKey(alias), category] as const))
+);
+
+// Maps one tag to its canonical name; tags outside the taxonomy are kept as written
+export function canonicalCategory(tag: string): string {
+  return CATEGORY_BY_KEY.get(matchKey(tag))?.name ?? tag.trim();
+}
+
+/**
+ * Splits a raw tag list such as "gamefi; Play-to-Earn / AI" on commas, semicolons, slashes and
+ * pipes and maps each tag to its canonical name, without duplicates.
+ */
+export function normalizeCategories(categoryTags: string): string[] {
+  if (!categoryTags || categoryTags === 'N/A') return [];
+  const categories = new Map<string, string>();
+  categoryTags.split(/[,;/|]/).forEach(tag => {
+    const category = canonicalCategory(tag);
+    const key = matchKey(category);
+    if (key && !categories.has(key)) {
+      categories.set(key, category);
+    }
+  });
+  return [...categories.values()];
+}
+
+// The category followed by its parent groups, e.g. ['GameFi', 'Gaming']
+export function categoryLineage(category: string): string[] {
+  const lineage: string[] = [];
+  let current: CategoryDefinition | undefined = CATEGORY_BY_KEY.get(matchKey(category));
+  if (!current) return [category];
+  while (current && !lineage.includes(current.name)) {
+    lineage.push(current.name);
+    current = current.parent ? CATEGORY_BY_KEY.get(matchKey(current.parent)) : undefined;
+  }
+  return lineage;
+}
+
+// The top-level group of a category, used to roll up the category chart
+export function categoryGroup(category: string): string {
+  const lineage = categoryLineage(category);
+  return lineage[lineage.length - 1];
+}
+
+// Every category of a project plus the groups they belong to
+export function withCategoryGroups(categories: string[]): string[] {
+  return [...new Set(categories.flatMap(categoryLineage))];
+}
+
+/**
+ * True when a project category is the wanted one, one of its aliases or belongs to it:
+ * 'Gaming' matches GameFi projects, while 'AI' does not match an 'AIgent' tag.
+ */
+export function matchesCategory(categories: string[], wanted: string): boolean {
+  const target = matchKey(canonicalCategory(wanted));
+  return categories.some(category => categoryLineage(category).some(c => matchKey(c) === target));
+}
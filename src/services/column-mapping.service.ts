@@ -0,0 +1,42 @@
+import { Injectable } from '@angular/core';
+import { ColumnMapping, MAPPABLE_FIELDS } from '../models/analysis.model';
+
+const MAPPINGS_STORAGE_KEY = 'alpha-column-mappings';
+
+interface SavedColumnMapping {
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ColumnMappingService {
+  public getMapping(signature: string): ColumnMapping | null {
+    const saved = this.loadMappings()[signature];
+    if (!saved) return null;
+    // Ignore mappings that reference fields which no longer exist
+    return saved.mapping.map(field => field && MAPPABLE_FIELDS.includes(field) ? field : null);
+  }
+
+  public saveMapping(signature: string, mapping: ColumnMapping): void {
+    const mappings = this.loadMappings();
+    mappings[signature] = { mapping, savedAt: new Date().toISOString() };
+    localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(mappings));
+  }
+
+  public forgetMapping(signature: string): void {
+    const mappings = this.loadMappings();
+    delete mappings[signature];
+    localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(mappings));
+  }
+
+  private loadMappings(): Record<string, SavedColumnMapping> {
+    try {
+      return JSON.parse(localStorage.getItem(MAPPINGS_STORAGE_KEY) || '{}');
+    } catch (error) {
+      console.error('Could not read saved column mappings.', error);
+      return {};
+    }
+  }
+}
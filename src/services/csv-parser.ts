@@ -0,0 +1,198 @@
+import { CodedMessage, CsvIssueCode } from '../models/analysis.model';
+
+export interface CsvRecord {
+  fields: string[];
+  // 1-based line number in the file where the record starts
+  line: number;
+  issues: CodedMessage<CsvIssueCode>[];
+  // Set when the file ended inside a quoted field
+  unterminated?: boolean;
+}
+
+export interface CsvTable {
+  headers: string[];
+  records: CsvRecord[];
+  delimiter: string;
+  encoding: string;
+}
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+/**
+ * Incremental RFC 4180 parser. Text can be pushed in arbitrary chunks; quoted fields may
+ * contain delimiters, escaped quotes ("") and line breaks (LF, CRLF or CR).
+ */
+export class CsvStreamParser {
+  private state: ParserState = 'fieldStart';
+  private field = '';
+  private fields: string[] = [];
+  private issues: CodedMessage<CsvIssueCode>[] = [];
+  private line = 1;
+  private recordLine = 1;
+  private skipNextLineFeed = false;
+
+  constructor(
+    private readonly delimiter: string,
+    private readonly onRecord: (record: CsvRecord) => void
+  ) {}
+
+  public push(chunk: string): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.skipNextLineFeed) {
+        this.skipNextLineFeed = false;
+        if (char === '\n') continue;
+      }
+      const isNewline = char === '\n' || char === '\r';
+
+      switch (this.state) {
+        case 'quoted':
+          if (char === '"') {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += isNewline ? '\n' : char;
+            if (isNewline) this.advanceLine(char);
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') { // Escaped quote
+            this.field += '"';
+            this.state = 'quoted';
+          } else if (char === this.delimiter) {
+            this.endField();
+          } else if (isNewline) {
+            this.endRecord(char);
+          } else if (char === ' ' || char === '\t') {
+            // Padding between a closing quote and the delimiter is ignored
+          } else {
+            this.issues.push({ code: 'character-after-quote', params: { column: this.fields.length + 1 } });
+            this.field += char;
+            this.state = 'unquoted';
+          }
+          break;
+
+        case 'fieldStart':
+        case 'unquoted':
+          if (char === this.delimiter) {
+            this.endField();
+          } else if (isNewline) {
+            this.endRecord(char);
+          } else if (char === '"' && this.state === 'fieldStart') {
+            this.state = 'quoted';
+          } else {
+            if (char === '"') {
+              this.issues.push({ code: 'quote-in-value', params: { column: this.fields.length + 1 } });
+            }
+            this.field += char;
+            this.state = 'unquoted';
+          }
+          break;
+      }
+    }
+  }
+
+  public end(): void {
+    const unterminated = this.state === 'quoted';
+    if (unterminated || this.fields.length > 0 || this.field.length > 0) {
+      this.fields.push(this.field);
+      this.emit(unterminated);
+    }
+  }
+
+  private advanceLine(char: string): void {
+    this.line++;
+    if (char === '\r') this.skipNextLineFeed = true;
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  private endRecord(newlineChar: string): void {
+    this.fields.push(this.field);
+    this.emit(false);
+    this.advanceLine(newlineChar);
+    this.recordLine = this.line;
+  }
+
+  private emit(unterminated: boolean): void {
+    const isBlank = this.fields.length === 1 && this.fields[0].trim() === '' && !unterminated;
+    if (!isBlank) {
+      const record: CsvRecord = { fields: this.fields, line: this.recordLine, issues: this.issues };
+      if (unterminated) record.unterminated = true;
+      this.onRecord(record);
+    }
+    this.fields = [];
+    this.field = '';
+    this.issues = [];
+    this.state = 'fieldStart';
+  }
+}
+
+export function parseCsvRecords(text: string, delimiter: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  const parser = new CsvStreamParser(delimiter, record => records.push(record));
+  parser.push(text);
+  parser.end();
+  return records;
+}
+
+/**
+ * Picks the delimiter that splits the first records of the sample into the most columns
+ * with the most consistent column count. Falls back to a comma.
+ */
+export function detectDelimiter(sample: string, sampleSize = 10): CsvDelimiter {
+  let best: { delimiter: CsvDelimiter; consistency: number; columns: number } = { delimiter: ',', consistency: 0, columns: 1 };
+
+  CSV_DELIMITERS.forEach(delimiter => {
+    const records: CsvRecord[] = [];
+    const parser = new CsvStreamParser(delimiter, record => records.push(record));
+    parser.push(sample);
+    // The parser is not ended, so a record cut off at the end of the sample is ignored
+    // unless the sample holds a single line
+    if (records.length === 0) parser.end();
+    const sampled = records.slice(0, sampleSize);
+    if (sampled.length === 0) return;
+
+    const columns = sampled[0].fields.length;
+    if (columns <= 1) return;
+    const consistency = sampled.filter(r => r.fields.length === columns).length / sampled.length;
+
+    if (consistency > best.consistency || (consistency === best.consistency && columns > best.columns)) {
+      best = { delimiter, consistency, columns };
+    }
+  });
+
+  return best.delimiter;
+}
+
+/**
+ * Decodes raw file bytes. A byte order mark wins; otherwise the bytes are read as UTF-8 and,
+ * if they are not valid UTF-8, as Windows-1254 (the legacy Turkish code page used by older Excel exports).
+ */
+export function decodeCsvBuffer(buffer: ArrayBuffer | Uint8Array): { text: string; encoding: string } {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const encoding = detectEncoding(bytes);
+  return { text: new TextDecoder(encoding).decode(bytes), encoding };
+}
+
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1254';
+  }
+}
@@ -0,0 +1,132 @@
+import { Injectable, signal } from '@angular/core';
+import { CsvFilePreview } from '../models/analysis.model';
+import { CsvImportOptions, CsvImportOutcome, CsvImportProgress, CsvWorkerRequest, CsvWorkerResponse, importCsvFile, previewCsvFile } from '../core';
+
+export class CsvImportCancelledError extends Error {
+  constructor() {
+    super('The import was cancelled.');
+    this.name = 'CsvImportCancelledError';
+  }
+}
+
+// Each request type without its id, which is assigned when the job is posted
+type WorkerJob = CsvWorkerRequest extends infer Request ? (Request extends unknown ? Omit<Request, 'id'> : never) : never;
+
+// What each request type resolves to
+interface WorkerJobResults {
+  preview: CsvFilePreview;
+  import: CsvImportOutcome;
+}
+
+type WorkerJobResult<T extends WorkerJob> = WorkerJobResults[T['type']];
+
+interface PendingJob {
+  resolve: (value: WorkerJobResult<WorkerJob>) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: CsvImportProgress) => void;
+}
+
+/**
+ * Runs CSV parsing and analysis in a Web Worker so large files don't freeze the page. Falls
+ * back to the main thread where workers are unavailable.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CsvWorkerService {
+  // Progress of the import shown in the page, null when idle
+  readonly progress = signal<CsvImportProgress | null>(null);
+
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingJob>();
+  private nextId = 1;
+  // Bumped on cancel so main-thread fallback results that arrive afterwards are dropped
+  private generation = 0;
+
+  public preview(file: File): Promise<CsvFilePreview> {
+    return this.run({ type: 'preview', file });
+  }
+
+  // Imports started with trackProgress off, e.g. a comparison file, leave `progress` alone
+  public import(file: File, options: CsvImportOptions, trackProgress = true): Promise<CsvImportOutcome> {
+    const job = { type: 'import' as const, file, options };
+    if (!trackProgress) return this.run(job);
+
+    this.progress.set({ phase: 'reading', loadedBytes: 0, totalBytes: file.size });
+    return this.run(job, progress => this.progress.set(progress)).finally(() => this.progress.set(null));
+  }
+
+  // Stops every running job; their promises reject with CsvImportCancelledError
+  public cancel(): void {
+    this.generation++;
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectAll(new CsvImportCancelledError());
+    this.progress.set(null);
+  }
+
+  private run<T extends WorkerJob>(job: T, onProgress?: (progress: CsvImportProgress) => void): Promise<WorkerJobResult<T>> {
+    const worker = this.getWorker();
+    if (!worker) return this.runOnMainThread(job, onProgress);
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      // The worker answers with the result for the job's type, so the widened resolver is only called with that
+      this.pending.set(id, { resolve: resolve as PendingJob['resolve'], reject, onProgress });
+      worker.postMessage({ ...job, id } as CsvWorkerRequest);
+    });
+  }
+
+  private async runOnMainThread<T extends WorkerJob>(
+    job: T,
+    onProgress?: (progress: CsvImportProgress) => void
+  ): Promise<WorkerJobResult<T>> {
+    const generation = this.generation;
+    const result = job.type === 'preview'
+      ? await previewCsvFile(job.file)
+      : await importCsvFile(job.file, job.options, onProgress);
+    if (generation !== this.generation) throw new CsvImportCancelledError();
+    return result as WorkerJobResult<T>;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || typeof Worker === 'undefined') return this.worker;
+
+    this.worker = new Worker(new URL('../workers/csv-import.worker', import.meta.url), { type: 'module' });
+    this.worker.onmessage = ({ data }: MessageEvent<CsvWorkerResponse>) => this.handleMessage(data);
+    this.worker.onerror = event => {
+      event.preventDefault();
+      // The worker is unusable after an uncaught error; start a fresh one for the next job
+      this.worker?.terminate();
+      this.worker = null;
+      this.rejectAll(new Error(event.message || 'The file could not be processed.'));
+    };
+    return this.worker;
+  }
+
+  private handleMessage(message: CsvWorkerResponse): void {
+    const job = this.pending.get(message.id);
+    if (!job) return;
+    if (message.type === 'progress') {
+      job.onProgress?.(message.progress);
+      return;
+    }
+    this.pending.delete(message.id);
+    switch (message.type) {
+      case 'preview':
+        job.resolve(message.preview);
+        break;
+      case 'import':
+        job.resolve(message.outcome);
+        break;
+      case 'error':
+        job.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(job => job.reject(error));
+    this.pending.clear();
+  }
+}
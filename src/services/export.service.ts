@@ -0,0 +1,96 @@
+import { Injectable } from '@angular/core';
+import { EXPORT_COLUMNS, exportRows } from './export/export-columns';
+import { toCsv } from './export/csv-writer';
+import { toXlsx } from './export/xlsx-writer';
+import { toAnalysisJson } from './export/json-export';
+import { ReportContext, buildHtmlReport, buildMarkdownReport, reportCharts } from './export/report-builder';
+import { serializeSvg, svgToPng } from './export/svg-export';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'markdown' | 'report';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'xlsx', label: 'Excel (XLSX)' },
+  { id: 'json', label: 'JSON (re-importable)' },
+  { id: 'markdown', label: 'Markdown report' },
+  { id: 'report', label: 'Printable report (PDF)' },
+];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ExportService {
+  /**
+   * Exports the given projects in the requested format. `chartSvgs` holds the rendered dashboard
+   * charts by title, which the printable report embeds.
+   */
+  public export(format: ExportFormat, context: ReportContext, chartSvgs: Record<string, string | undefined> = {}): void {
+    const baseName = `alpha_projects_${context.generatedAt.toISOString().substring(0, 10)}`;
+    const headers = EXPORT_COLUMNS.map(column => column.header);
+
+    switch (format) {
+      case 'csv':
+        // The BOM makes Excel read the file as UTF-8
+        this.download(new Blob(['\uFEFF' + toCsv(headers, exportRows(context.projects))], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+        break;
+      case 'xlsx':
+        this.download(toXlsx('Projects', headers, exportRows(context.projects)), `${baseName}.xlsx`);
+        break;
+      case 'json':
+        this.download(new Blob([toAnalysisJson({
+          exportedAt: context.generatedAt.toISOString(),
+          fileName: context.fileName,
+          profileName: context.profileName,
+          summaryStatistics: context.summary.summaryStatistics,
+          projects: context.projects,
+        })], { type: 'application/json' }), `${baseName}.json`);
+        break;
+      case 'markdown':
+        this.download(new Blob([buildMarkdownReport(context)], { type: 'text/markdown;charset=utf-8' }), `${baseName}.md`);
+        break;
+      case 'report':
+        this.openPrintableReport(buildHtmlReport(context, reportCharts(context.summary).map(chart => ({ ...chart, svg: chartSvgs[chart.title] }))), `${baseName}.html`);
+        break;
+    }
+  }
+
+  // Returns the chart's SVG with a viewBox so it scales to the report's column width
+  public serializeChart(element: HTMLElement | undefined): string | undefined {
+    const svg = element?.querySelector('svg');
+    return svg ? serializeSvg(svg) : undefined;
+  }
+
+  // Downloads the chart rendered inside the element as an SVG or PNG image
+  public async exportChart(element: HTMLElement, format: 'svg' | 'png', baseName: string, background: string): Promise<void> {
+    const svg = element.querySelector('svg');
+    if (!svg) return;
+    if (format === 'svg') {
+      this.download(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }), `${baseName}.svg`);
+    } else {
+      this.download(await svgToPng(svg, background), `${baseName}.png`);
+    }
+  }
+
+  private openPrintableReport(html: string, fileName: string): void {
+    const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const reportWindow = window.open(url, '_blank');
+    if (!reportWindow) {
+      // Pop-up blocked: fall back to downloading the page, which prints the same way when opened
+      this.download(blob, fileName);
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+
+  private download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
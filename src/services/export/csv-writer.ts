@@ -0,0 +1,26 @@
+import { ExportValue } from './export-columns';
+
+/**
+ * Serializes rows as RFC 4180 CSV: CRLF line endings, and fields containing the delimiter,
+ * quotes or line breaks are quoted with embedded quotes doubled. Values starting with a formula
+ * character, a tab or a carriage return are prefixed with an apostrophe so spreadsheet apps
+ * don't evaluate them.
+ */
+export function toCsv(headers: string[], rows: ExportValue[][], delimiter = ','): string {
+  return [headers, ...rows].map(row => row.map(value => escapeCsvField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+export function escapeCsvField(value: ExportValue, delimiter = ','): string {
+  let text = typeof value === 'number' ? String(value) : value;
+  // Values that already start with apostrophes get one more, so unescapeCsvField can tell them apart
+  if (/^'*[\t\r]/.test(text) || (/^'*[=+\-@]/.test(text) && isNaN(Number(text)))) {
+    text = `'${text}`;
+  }
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Removes the apostrophe escapeCsvField puts before formula characters, so exported files read back unchanged
+export function unescapeCsvField(text: string): string {
+  return /^'+[=+\-@\t\r]/.test(text) ? text.substring(1) : text;
+}
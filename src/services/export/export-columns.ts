@@ -0,0 +1,221 @@
+import { Project } from '../../models/analysis.model';
+import { TEAM_STATUSES, TeamStatus, VerificationDetails } from '../../models/verification.model';
+import { EMPTY_WORKFLOW, PIPELINE_STAGES, PIPELINE_STAGE_LABELS, ProjectWorkflow } from '../../models/workflow.model';
+
+export type ExportValue = string | number;
+
+export interface ExportColumn {
+  header: string;
+  value: (project: Project) => ExportValue;
+  // Reads the column back when an exported file is imported again; columns without it are only written
+  read?: (value: string, project: Project) => void;
+}
+
+const list = (values: string[] | undefined) => (values ?? []).join('; ');
+const splitList = (value: string) => value.split(';').map(v => v.trim()).filter(v => v.length > 0);
+
+/**
+ * The fixed column layout of CSV and XLSX exports. Every row has every column, whatever
+ * fields a project happens to have. The first eight headers are ones the column mapping
+ * recognizes and the verification and workflow columns are read back on import, so an exported
+ * file can be loaded again. Priority and ID are recomputed on import.
+ */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Project Name', value: p => p.projectName },
+  { header: 'Website URL', value: p => p.websiteUrl },
+  { header: 'Source Platform', value: p => p.sourcePlatform },
+  { header: 'Category Tags', value: p => p.categoryTags },
+  { header: 'Launch Status', value: p => p.launchStatus },
+  { header: 'Raw Description', value: p => p.rawDescription },
+  { header: 'Potential Score', value: p => p.potentialScore },
+  { header: 'Analyst Note', value: p => p.analystNote },
+  { header: 'Project ID', value: p => p.id },
+  { header: 'Priority Score', value: p => p.priorityScore === undefined ? '' : Number(p.priorityScore.toFixed(2)) },
+  {
+    header: 'Verification Status',
+    value: p => p.verificationStatus,
+    read: (v, p) => {
+      // A verification that was running during the export has to be started again
+      if (v === 'verified' || v === 'failed') p.verificationStatus = v;
+    },
+  },
+  {
+    header: 'Verification Score',
+    value: p => p.verificationScore ?? '',
+    read: (v, p) => {
+      const score = parseFloat(v);
+      if (!isNaN(score)) p.verificationScore = score;
+    },
+  },
+  {
+    header: 'Verification Summary',
+    value: p => p.verificationSummary ?? p.verificationError ?? '',
+    read: (v, p) => {
+      if (v) p.verificationSummary = v;
+    },
+  },
+  {
+    header: 'Team Status',
+    value: p => p.verificationDetails?.teamStatus ?? '',
+    read: (v, p) => {
+      if (TEAM_STATUSES.includes(v as TeamStatus)) details(p).teamStatus = v as TeamStatus;
+    },
+  },
+  {
+    header: 'Social Accounts',
+    value: p => list(p.verificationDetails?.socialAccounts.map(a => a.url)),
+    read: (v, p) => {
+      details(p).socialAccounts = splitList(v).map(url => ({ platform: platformOf(url), url }));
+    },
+  },
+  {
+    header: 'Token Mentions',
+    value: p => list(p.verificationDetails?.tokenMentions.map(t => [t.symbol, t.chain, t.contractAddress].map(part => part ?? '').join(' / '))),
+    read: (v, p) => {
+      details(p).tokenMentions = splitList(v).map(mention => {
+        const [symbol, chain, contractAddress] = mention.split(' / ').map(part => part.trim() || null);
+        return { symbol: symbol ?? null, chain: chain ?? null, contractAddress: contractAddress ?? null };
+      });
+    },
+  },
+  {
+    header: 'Funding Signals',
+    value: p => list(p.verificationDetails?.fundingSignals),
+    read: (v, p) => {
+      details(p).fundingSignals = splitList(v);
+    },
+  },
+  {
+    header: 'Red Flags',
+    value: p => list(p.verificationDetails?.redFlags),
+    read: (v, p) => {
+      details(p).redFlags = splitList(v);
+    },
+  },
+  {
+    header: 'Last Activity',
+    value: p => p.verificationDetails?.lastActivityDate ?? '',
+    read: (v, p) => {
+      if (v) details(p).lastActivityDate = v;
+    },
+  },
+  {
+    header: 'Evidence Links',
+    value: p => list(p.evidenceLinks?.map(link => link.uri)),
+    read: (v, p) => {
+      const links = splitList(v).map(uri => ({ title: uri, uri }));
+      if (links.length > 0) p.evidenceLinks = links;
+    },
+  },
+  { header: 'Website Status', value: p => websiteStatus(p) },
+  { header: 'Website Title', value: p => p.websiteCrawl?.title ?? '' },
+  {
+    header: 'Pipeline Stage',
+    value: p => p.workflow ? PIPELINE_STAGE_LABELS[p.workflow.stage] : '',
+    read: (v, p) => {
+      const stage = PIPELINE_STAGES.find(s => s === v.toLowerCase() || PIPELINE_STAGE_LABELS[s].toLowerCase() === v.toLowerCase());
+      if (stage) workflow(p).stage = stage;
+    },
+  },
+  {
+    header: 'Workflow Tags',
+    value: p => list(p.workflow?.tags),
+    read: (v, p) => {
+      if (v) workflow(p).tags = splitList(v);
+    },
+  },
+  {
+    header: 'Assignee',
+    value: p => p.workflow?.assignee ?? '',
+    read: (v, p) => {
+      if (v) workflow(p).assignee = v;
+    },
+  },
+  {
+    header: 'Follow-up Date',
+    value: p => p.workflow?.followUpDate ?? '',
+    read: (v, p) => {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(v)) workflow(p).followUpDate = v;
+    },
+  },
+  {
+    // One note per line, each starting with its timestamp
+    header: 'Workflow Notes',
+    value: p => (p.workflow?.notes ?? []).map(note => `${note.createdAt} ${note.text.replace(/\s*\n\s*/g, ' ')}`).join('\n'),
+    read: (v, p) => {
+      const notes = v.split('\n').map(line => line.trim()).filter(line => line.length > 0).map(line => {
+        const [, createdAt, text] = line.match(/^(\d{4}-\d{2}-\d{2}T\S+)\s+(.*)$/) ?? [null, '', line];
+        return { createdAt, text };
+      });
+      if (notes.length > 0) workflow(p).notes = notes;
+    },
+  },
+];
+
+export function exportRows(projects: Project[]): ExportValue[][] {
+  return projects.map(project => EXPORT_COLUMNS.map(column => column.value(project)));
+}
+
+/**
+ * Copies the verification columns of an exported file onto imported projects. Only rows
+ * marked as verified or failed keep their verification data.
+ */
+export function readEnrichment(headers: string[], values: string[], project: Project): void {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  EXPORT_COLUMNS.forEach(column => {
+    const index = normalized.indexOf(column.header.toLowerCase());
+    if (column.read && index !== -1 && index < values.length) {
+      column.read(values[index].trim(), project);
+    }
+  });
+
+  if (project.verificationStatus === 'failed') {
+    project.verificationError = project.verificationSummary;
+    project.verificationSummary = undefined;
+  }
+  if (project.verificationStatus !== 'verified') {
+    project.verificationScore = undefined;
+    project.verificationDetails = undefined;
+    project.evidenceLinks = undefined;
+  }
+}
+
+// Files exported by this app always have the Project ID and Verification Status columns
+export function isAppExport(headers: string[]): boolean {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  return ['project id', 'verification status'].every(header => normalized.includes(header));
+}
+
+// Export columns that are not part of the column mapping but are still understood on import
+export function isEnrichmentHeader(header: string): boolean {
+  const normalized = header.trim().toLowerCase();
+  return EXPORT_COLUMNS.slice(8).some(column => column.header.toLowerCase() === normalized);
+}
+
+function details(project: Project): VerificationDetails {
+  return project.verificationDetails ??= {
+    teamStatus: 'unknown',
+    socialAccounts: [],
+    tokenMentions: [],
+    fundingSignals: [],
+    redFlags: [],
+    lastActivityDate: null,
+  };
+}
+
+function workflow(project: Project): ProjectWorkflow {
+  return project.workflow ??= { ...EMPTY_WORKFLOW, tags: [], notes: [] };
+}
+
+// "https://x.com/foo" -> "x.com"
+function platformOf(url: string): string {
+  return url.replace(/^[a-z]+:\/\//i, '').replace(/^www\./i, '').split(/[/?#]/)[0] || url;
+}
+
+function websiteStatus(project: Project): string {
+  const crawl = project.websiteCrawl;
+  if (!crawl) return '';
+  if (crawl.status === null) return `unreachable (${crawl.error ?? 'no response'})`;
+  const tls = crawl.tls ? (crawl.tls.valid ? ', TLS valid' : ', TLS invalid') : ', no TLS';
+  return `${crawl.status}${tls}`;
+}
@@ -0,0 +1,64 @@
+import { Project, SummaryStatistics } from '../../models/analysis.model';
+
+export const ANALYSIS_EXPORT_FORMAT = 'alpha-analyzer-projects';
+export const ANALYSIS_EXPORT_VERSION = 1;
+
+export interface AnalysisExport {
+  format: typeof ANALYSIS_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  fileName: string;
+  profileName: string;
+  summaryStatistics: SummaryStatistics;
+  projects: Project[];
+}
+
+export function toAnalysisJson(data: Omit<AnalysisExport, 'format' | 'version'>): string {
+  const document: AnalysisExport = { format: ANALYSIS_EXPORT_FORMAT, version: ANALYSIS_EXPORT_VERSION, ...data };
+  return JSON.stringify(document, null, 2);
+}
+
+export function isAnalysisJson(value: unknown): value is AnalysisExport {
+  return typeof value === 'object' && value !== null && (value as AnalysisExport).format === ANALYSIS_EXPORT_FORMAT;
+}
+
+/**
+ * Reads the projects back from a JSON export, keeping their verification results so the
+ * analysis can be continued. Throws when the file is not an export of this app.
+ */
+export function parseAnalysisJson(text: string): AnalysisExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isAnalysisJson(data)) {
+    throw new Error('The JSON file is not a project export of this app.');
+  }
+  if (data.version > ANALYSIS_EXPORT_VERSION) {
+    throw new Error(`The export was made by a newer version of the app (format version ${data.version}).`);
+  }
+  if (!Array.isArray(data.projects)) {
+    throw new Error('The export does not contain a project list.');
+  }
+
+  const projects = data.projects
+    .filter(p => typeof p?.projectName === 'string' && p.projectName.trim() !== '')
+    .map(p => ({
+      ...p,
+      websiteUrl: p.websiteUrl || 'N/A',
+      sourcePlatform: p.sourcePlatform || 'N/A',
+      categoryTags: p.categoryTags || 'N/A',
+      launchStatus: p.launchStatus || 'N/A',
+      rawDescription: p.rawDescription || 'N/A',
+      analystNote: p.analystNote || 'N/A',
+      potentialScore: Number(p.potentialScore) || 0,
+      // A verification that was running during the export has to be started again
+      verificationStatus: p.verificationStatus === 'verifying' || !p.verificationStatus ? 'unverified' as const : p.verificationStatus,
+    }));
+  if (projects.length === 0) {
+    throw new Error('The export contains no projects.');
+  }
+  return { ...data, projects };
+}
@@ -0,0 +1,194 @@
+import { ChartData, Project, ProjectSummary } from '../../models/analysis.model';
+import { LAUNCH_STAGE_LABELS, LaunchStage } from '../../models/launch-lifecycle.model';
+
+export interface ReportContext {
+  title: string;
+  fileName: string;
+  profileName: string;
+  generatedAt: Date;
+  summary: ProjectSummary;
+  projects: Project[];
+}
+
+export interface ReportChart {
+  title: string;
+  data: ChartData[];
+  // Rendered SVG markup of the dashboard chart; the printable report falls back to a table without it
+  svg?: string;
+}
+
+export function reportCharts(summary: ProjectSummary): ReportChart[] {
+  return [
+    { title: 'Top Categories', data: summary.categoryAnalysis },
+    { title: 'Launch Stage', data: summary.launchStatusAnalysis.map(d => ({ ...d, label: LAUNCH_STAGE_LABELS[d.label as LaunchStage] })) },
+    { title: 'Potential Score Distribution', data: summary.potentialScoreDistribution },
+    { title: 'Source Platforms', data: summary.sourcePlatformAnalysis ?? [] },
+  ];
+}
+
+export function buildMarkdownReport(context: ReportContext): string {
+  const stats = context.summary.summaryStatistics;
+  const lines: string[] = [
+    `# ${context.title}`,
+    '',
+    `Generated ${context.generatedAt.toISOString().substring(0, 16).replace('T', ' ')} from \`${context.fileName}\` with the "${context.profileName}" filter profile.`,
+    '',
+    '## Summary',
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    `| Projects | ${stats.totalProjects} |`,
+    `| Average potential score | ${stats.averagePotentialScore} |`,
+    `| High potential (8+) | ${stats.highPotentialProjects} |`,
+    `| Medium potential (6-8) | ${stats.mediumPotentialProjects} |`,
+    `| Upcoming launches | ${stats.upcomingProjects} |`,
+    `| Verified | ${context.projects.filter(p => p.verificationStatus === 'verified').length} |`,
+    '',
+  ];
+
+  reportCharts(context.summary).forEach(chart => {
+    const max = Math.max(1, ...chart.data.map(d => d.value));
+    lines.push(`### ${chart.title}`, '', '```');
+    const labelWidth = Math.max(0, ...chart.data.map(d => d.label.length));
+    chart.data.forEach(d => lines.push(`${d.label.padEnd(labelWidth)}  ${'█'.repeat(Math.round((d.value / max) * 30))} ${d.value}`));
+    lines.push('```', '');
+  });
+
+  lines.push('## Projects', '');
+  context.projects.forEach((p, index) => {
+    lines.push(`### ${index + 1}. ${escapeMarkdown(p.projectName)}`, '');
+    if (p.websiteUrl !== 'N/A') lines.push(`- **Website:** ${p.websiteUrl}`);
+    lines.push(
+      `- **Categories:** ${escapeMarkdown(p.categoryTags)}`,
+      `- **Launch status:** ${escapeMarkdown(p.launchStatus)}`,
+      `- **Potential score:** ${p.potentialScore} · **Priority score:** ${p.priorityScore?.toFixed(2) ?? 'n/a'}`,
+      `- **Verification:** ${verificationLabel(p)}`,
+    );
+    if (p.analystNote !== 'N/A') lines.push(`- **Analyst note:** ${escapeMarkdown(p.analystNote)}`);
+    const details = p.verificationDetails;
+    if (details) {
+      lines.push(`- **Team:** ${details.teamStatus}${details.lastActivityDate ? ` · last activity ${details.lastActivityDate}` : ''}`);
+      if (details.fundingSignals.length > 0) lines.push(`- **Funding:** ${escapeMarkdown(details.fundingSignals.join('; '))}`);
+      if (details.redFlags.length > 0) lines.push(`- **Red flags:** ${escapeMarkdown(details.redFlags.join('; '))}`);
+      if (details.socialAccounts.length > 0) lines.push(`- **Socials:** ${details.socialAccounts.map(a => `[${escapeMarkdown(a.platform)}](${a.url})`).join(', ')}`);
+    }
+    if (p.verificationSummary) lines.push('', `> ${escapeMarkdown(p.verificationSummary).replace(/\n/g, '\n> ')}`);
+    if (p.evidenceLinks && p.evidenceLinks.length > 0) {
+      lines.push('', 'Evidence:');
+      p.evidenceLinks.forEach(link => lines.push(`- [${escapeMarkdown(link.title || link.uri)}](${link.uri})`));
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * A self-contained HTML page laid out for printing. It opens the print dialog when loaded,
+ * which is how the report is saved as PDF.
+ */
+export function buildHtmlReport(context: ReportContext, charts: ReportChart[]): string {
+  const stats = context.summary.summaryStatistics;
+  const statCards = [
+    ['Projects', stats.totalProjects],
+    ['Avg. potential score', stats.averagePotentialScore],
+    ['High potential (8+)', stats.highPotentialProjects],
+    ['Medium potential (6-8)', stats.mediumPotentialProjects],
+    ['Upcoming launches', stats.upcomingProjects],
+    ['Verified', context.projects.filter(p => p.verificationStatus === 'verified').length],
+  ].map(([label, value]) => `<div class="stat"><div class="label">${escapeHtml(String(label))}</div><div class="value">${value}</div></div>`);
+
+  const chartBlocks = charts.map(chart => `
+    <div class="chart">
+      <h3>${escapeHtml(chart.title)}</h3>
+      ${chart.svg
+        ? `<div class="svg">${chart.svg}</div>`
+        : `<table>${chart.data.map(d => `<tr><td>${escapeHtml(d.label)}</td><td class="num">${d.value}</td></tr>`).join('')}</table>`}
+    </div>`);
+
+  const projectBlocks = context.projects.map((p, index) => {
+    const details = p.verificationDetails;
+    const facts = [
+      isHttpUrl(p.websiteUrl) ? `<b>Website:</b> <a href="${escapeHtml(p.websiteUrl)}">${escapeHtml(p.websiteUrl)}</a>` : '',
+      `<b>Categories:</b> ${escapeHtml(p.categoryTags)}`,
+      `<b>Launch status:</b> ${escapeHtml(p.launchStatus)}`,
+      `<b>Potential:</b> ${p.potentialScore} · <b>Priority:</b> ${p.priorityScore?.toFixed(2) ?? 'n/a'}`,
+      `<b>Verification:</b> ${escapeHtml(verificationLabel(p))}`,
+      details ? `<b>Team:</b> ${escapeHtml(details.teamStatus)}${details.lastActivityDate ? ` · last activity ${escapeHtml(details.lastActivityDate)}` : ''}` : '',
+      details && details.fundingSignals.length > 0 ? `<b>Funding:</b> ${escapeHtml(details.fundingSignals.join('; '))}` : '',
+      details && details.redFlags.length > 0 ? `<b class="flag">Red flags:</b> ${escapeHtml(details.redFlags.join('; '))}` : '',
+      p.analystNote !== 'N/A' ? `<b>Analyst note:</b> ${escapeHtml(p.analystNote)}` : '',
+    ].filter(Boolean);
+    const evidence = (p.evidenceLinks ?? []).filter(link => isHttpUrl(link.uri)).map(link => `<li><a href="${escapeHtml(link.uri)}">${escapeHtml(link.title || link.uri)}</a></li>`);
+    return `
+    <article>
+      <h3>${index + 1}. ${escapeHtml(p.projectName)}</h3>
+      <ul class="facts">${facts.map(f => `<li>${f}</li>`).join('')}</ul>
+      ${p.verificationSummary ? `<blockquote>${escapeHtml(p.verificationSummary)}</blockquote>` : ''}
+      ${evidence.length > 0 ? `<p class="evidence-title">Evidence</p><ul>${evidence.join('')}</ul>` : ''}
+    </article>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(context.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; font-size: 13px; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #475569; margin-top: 0; }
+  .stats { display: grid; grid-template-columns: repeat(6, 1fr); gap: 0.5rem; margin: 1rem 0; }
+  .stat { border: 1px solid #cbd5e1; border-radius: 6px; padding: 0.5rem; }
+  .stat .label { color: #475569; font-size: 11px; }
+  .stat .value { font-size: 20px; font-weight: bold; }
+  .charts { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+  .chart { break-inside: avoid; }
+  .chart .svg { background: #1e293b; border-radius: 6px; overflow: hidden; }
+  .chart svg { max-width: 100%; height: auto; }
+  .num { text-align: right; padding-left: 1rem; }
+  article { border-top: 1px solid #e2e8f0; padding-top: 0.5rem; break-inside: avoid; }
+  .facts { list-style: none; padding: 0; margin: 0; }
+  blockquote { border-left: 3px solid #6366f1; margin: 0.5rem 0; padding-left: 0.75rem; color: #334155; }
+  .flag { color: #b91c1c; }
+  .evidence-title { font-weight: bold; margin-bottom: 0; }
+  a { color: #4338ca; word-break: break-all; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(context.title)}</h1>
+  <p class="meta">Generated ${escapeHtml(context.generatedAt.toLocaleString())} from ${escapeHtml(context.fileName)} with the "${escapeHtml(context.profileName)}" filter profile.</p>
+  <section class="stats">${statCards.join('')}</section>
+  <section class="charts">${chartBlocks.join('')}</section>
+  <h2>Projects</h2>
+  ${projectBlocks.join('')}
+  <script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>`;
+}
+
+function verificationLabel(project: Project): string {
+  switch (project.verificationStatus) {
+    case 'verified': return `verified, ${project.verificationScore ?? '?'}% confidence`;
+    case 'failed': return `failed${project.verificationError ? ` (${project.verificationError})` : ''}`;
+    default: return 'not verified';
+  }
+}
+
+// Links in the report come from the CSV and the model, so anything but http(s) is left out
+function isHttpUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,74 @@
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+/**
+ * Builds an uncompressed ("stored") ZIP archive. That is all the XLSX container needs, and it
+ * avoids pulling in a compression library for exports of at most a few megabytes.
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // local file header signature
+    local.setUint16(4, 20, true); // version needed to extract
+    local.setUint16(8, 0, true); // compression: stored
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true); // compressed size
+    local.setUint32(22, entry.data.length, true); // uncompressed size
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // central directory header signature
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed to extract
+    central.setUint16(10, 0, true); // compression: stored
+    central.setUint32(16, crc, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true); // offset of the local header
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + entry.data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // end of central directory signature
+  end.setUint16(8, entries.length, true); // entries on this disk
+  end.setUint16(10, entries.length, true); // total entries
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true); // central directory offset
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
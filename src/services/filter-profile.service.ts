@@ -0,0 +1,96 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { DEFAULT_FILTER_PROFILE, FilterProfile } from '../models/filter-profile.model';
+import { normalizeFilterProfile, validateFilterProfile } from '../core';
+
+const PROFILES_STORAGE_KEY = 'alpha-filter-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'alpha-active-filter-profile';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class FilterProfileService {
+  readonly profiles = signal<FilterProfile[]>(this.loadProfiles());
+  readonly activeProfileId = signal<string>(localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_FILTER_PROFILE.id);
+
+  readonly activeProfile = computed(() =>
+    this.profiles().find(p => p.id === this.activeProfileId()) ?? this.profiles()[0]
+  );
+
+  public setActiveProfile(id: string): void {
+    if (!this.profiles().some(p => p.id === id)) return;
+    this.activeProfileId.set(id);
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+  }
+
+  public saveProfile(profile: FilterProfile): void {
+    const errors = this.validateProfile(profile);
+    if (errors.length > 0) {
+      throw new Error(errors.join(' '));
+    }
+    this.profiles.update(profiles => {
+      const index = profiles.findIndex(p => p.id === profile.id);
+      if (index === -1) return [...profiles, profile];
+      const updated = [...profiles];
+      updated[index] = profile;
+      return updated;
+    });
+    this.persist();
+  }
+
+  // Adds a project to the active profile's force-included projects, or removes it
+  public setForceIncluded(projectId: string, included: boolean): void {
+    const profile = this.activeProfile();
+    const ids = profile.forceIncludedIds.filter(id => id !== projectId);
+    this.saveProfile({ ...profile, forceIncludedIds: included ? [...ids, projectId] : ids });
+  }
+
+  public createProfile(name: string, basedOn: FilterProfile = this.activeProfile()): FilterProfile {
+    const profile: FilterProfile = {
+      ...structuredClone(basedOn),
+      id: `profile-${Date.now().toString(36)}`,
+      name: name.trim() || `${basedOn.name} (copy)`,
+    };
+    this.saveProfile(profile);
+    this.setActiveProfile(profile.id);
+    return profile;
+  }
+
+  public deleteProfile(id: string): void {
+    if (id === DEFAULT_FILTER_PROFILE.id) {
+      throw new Error('The default profile cannot be deleted.');
+    }
+    this.profiles.update(profiles => profiles.filter(p => p.id !== id));
+    if (this.activeProfileId() === id) {
+      this.setActiveProfile(DEFAULT_FILTER_PROFILE.id);
+    }
+    this.persist();
+  }
+
+  public resetDefaultProfile(): void {
+    this.saveProfile(structuredClone(DEFAULT_FILTER_PROFILE));
+  }
+
+  public validateProfile(profile: FilterProfile): string[] {
+    return validateFilterProfile(profile);
+  }
+
+  private loadProfiles(): FilterProfile[] {
+    let stored: Partial<FilterProfile>[] = [];
+    try {
+      stored = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Could not read stored filter profiles, falling back to defaults.', error);
+    }
+
+    const profiles = stored.filter(p => p && p.id).map(normalizeFilterProfile);
+
+    if (!profiles.some(p => p.id === DEFAULT_FILTER_PROFILE.id)) {
+      profiles.unshift(structuredClone(DEFAULT_FILTER_PROFILE));
+    }
+    return profiles;
+  }
+
+  private persist(): void {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(this.profiles()));
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable, signal } from '@angular/core';
+import { LOCALES, Locale } from '../models/locale.model';
+import { CodedMessage } from '../models/analysis.model';
+import { EN } from '../i18n/en';
+import { TR } from '../i18n/tr';
+import { formatMessage } from '../i18n/format';
+
+const LOCALE_STORAGE_KEY = 'alpha-locale';
+
+const TRANSLATIONS: Record<Locale, Record<string, string>> = { en: EN, tr: TR };
+
+/**
+ * Holds the UI language. It also decides the language of new verification summaries and is the
+ * default number and date format of uploaded files.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class I18nService {
+  readonly locale = signal<Locale>(this.loadLocale());
+
+  constructor() {
+    document.documentElement.lang = this.locale();
+  }
+
+  public setLocale(locale: Locale): void {
+    if (!LOCALES.includes(locale)) return;
+    this.locale.set(locale);
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    document.documentElement.lang = locale;
+  }
+
+  /**
+   * The message for `key` in the current language, falling back to English and then to the key
+   * itself. `{name}` placeholders are replaced with the matching parameter.
+   */
+  public translate(key: string, params: Record<string, string | number> = {}): string {
+    const message = TRANSLATIONS[this.locale()][key] ?? EN[key as keyof typeof EN] ?? key;
+    return formatMessage(message, params);
+  }
+
+  // A coded message from the core, e.g. a CSV issue as `csvIssue.<code>`
+  public translateMessage(prefix: string, message: CodedMessage<string>): string {
+    return this.translate(`${prefix}.${message.code}`, message.params);
+  }
+
+  // A saved choice wins, otherwise the browser language decides
+  private loadLocale(): Locale {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY) as Locale | null;
+    if (stored && LOCALES.includes(stored)) return stored;
+    return navigator.language.toLowerCase().startsWith('tr') ? 'tr' : 'en';
+  }
+}
@@ -0,0 +1,64 @@
+const DATABASE_NAME = 'alpha-analyzer';
+const DATABASE_VERSION = 1;
+
+export type StoreName = 'verifications' | 'sessions' | 'workflows';
+
+const STORE_KEY_PATHS: Record<StoreName, string> = {
+  verifications: 'key',
+  sessions: 'id',
+  workflows: 'projectId',
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORE_KEY_PATHS) as StoreName[]).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: STORE_KEY_PATHS[store] });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again if the database could not be opened
+    databasePromise.catch(() => databasePromise = null);
+  }
+  return databasePromise;
+}
+
+async function runRequest<T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return runRequest<T | undefined>(store, 'readonly', s => s.get(key));
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return runRequest<T[]>(store, 'readonly', s => s.getAll());
+}
+
+export async function idbPut<T>(store: StoreName, value: T): Promise<void> {
+  await runRequest(store, 'readwrite', s => s.put(value));
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  await runRequest(store, 'readwrite', s => s.delete(key));
+}
+
+export async function idbClear(store: StoreName): Promise<void> {
+  await runRequest(store, 'readwrite', s => s.clear());
+}
@@ -0,0 +1,146 @@
+import { LaunchDatePrecision, LaunchInfo, LaunchStage } from '../models/launch-lifecycle.model';
+import { Locale } from '../models/locale.model';
+
+// Checked in order, so "beta on testnet" is testnet and "upcoming, in development" is development.
+// Keywords are matched against the status with Turkish and other diacritics folded to ASCII.
+const STAGE_PATTERNS: [LaunchStage, RegExp][] = [
+  ['testnet', /\b(testnet|devnet|incentivi[sz]ed test|test agi)/],
+  ['alpha-beta', /\b(alpha|beta|early access|erken erisim|closed test|open test|playtest)/],
+  ['development', /\b(development|developing|in dev|making|building|under construction|in progress|wip|prototype|gelistir|yapim asamasi)/],
+  ['planned', /\b(upcoming|planned|coming soon|soon|tba|tbd|announced|pre-?launch|presale|launching|to launch|launch date|yakinda|planlan)/],
+  ['live', /\b(live|launched|mainnet|released|playable|active|available|out now|yayinda|canli|aktif)\b/],
+];
+
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1, ocak: 1,
+  february: 2, feb: 2, subat: 2,
+  march: 3, mar: 3, mart: 3,
+  april: 4, apr: 4, nisan: 4,
+  may: 5, mayis: 5,
+  june: 6, jun: 6, haziran: 6,
+  july: 7, jul: 7, temmuz: 7,
+  august: 8, aug: 8, agustos: 8,
+  september: 9, sept: 9, sep: 9, eylul: 9,
+  october: 10, oct: 10, ekim: 10,
+  november: 11, nov: 11, kasim: 11,
+  december: 12, dec: 12, aralik: 12,
+};
+
+const MONTH_NAMES = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+
+/**
+ * Maps a free-text launch status such as "Upcoming (2025-Q3)", "Beta" or "31.08.2025" to a
+ * lifecycle stage and, when the text contains one, the expected launch date. A status that is
+ * only a date counts as planned while that date lies ahead and as live once it has passed.
+ * Slash dates like 03/04/2025 are read month first for English data and day first otherwise.
+ */
+export function normalizeLaunchStatus(status: string, today: Date = new Date(), locale?: Locale): LaunchInfo {
+  const text = foldText(status || '');
+  const parsed = parseLaunchDate(text, locale);
+  const stage = STAGE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+  if (stage) {
+    return { stage, expectedDate: parsed?.date ?? null, datePrecision: parsed?.precision ?? null };
+  }
+  if (parsed) {
+    const upcoming = periodEnd(parsed.date, parsed.precision) >= toIsoDate(today);
+    return { stage: upcoming ? 'planned' : 'live', expectedDate: parsed.date, datePrecision: parsed.precision };
+  }
+  return { stage: 'unknown', expectedDate: null, datePrecision: null };
+}
+
+function foldText(text: string): string {
+  return text.toLowerCase().replace(/ı/g, 'i').normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function parseLaunchDate(text: string, locale?: Locale): { date: string; precision: LaunchDatePrecision } | null {
+  let match: RegExpMatchArray | null;
+
+  // 2025-08-31, 2025/08/31
+  if ((match = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/))) {
+    return toResult(+match[1], +match[2], +match[3], 'day');
+  }
+  // 31.08.2025, 31/08/2025 (day first, as in Turkish and most European data), or 08/31/2025 in
+  // English data; a date that is impossible in one order is read in the other
+  if ((match = text.match(/\b(\d{1,2})([./-])(\d{1,2})[./-](\d{4})\b/))) {
+    const monthFirst = locale === 'en' && match[2] === '/';
+    const [day, month] = monthFirst ? [+match[3], +match[1]] : [+match[1], +match[3]];
+    return toResult(+match[4], month, day, 'day') ?? toResult(+match[4], day, month, 'day');
+  }
+  // August 31, 2025
+  if ((match = text.match(new RegExp(`\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`)))) {
+    return toResult(+match[3], MONTHS[match[1]], +match[2], 'day');
+  }
+  // 31 August 2025
+  if ((match = text.match(new RegExp(`\\b(\\d{1,2})\\.?\\s+(${MONTH_NAMES})\\.?\\s+(\\d{4})\\b`)))) {
+    return toResult(+match[3], MONTHS[match[2]], +match[1], 'day');
+  }
+  // 2025-Q3, 2025 Q3, Q3 2025, Q3'25
+  if ((match = text.match(/\b(\d{4})\s*[-/ ]?\s*q([1-4])\b/))) {
+    return toResult(+match[1], (+match[2] - 1) * 3 + 1, 1, 'quarter');
+  }
+  if ((match = text.match(/\bq([1-4])\s*[-/ ']?\s*(\d{4}|\d{2})\b/))) {
+    return toResult(fullYear(match[2]), (+match[1] - 1) * 3 + 1, 1, 'quarter');
+  }
+  // 2025 3. çeyrek, 3. çeyrek 2025 (Turkish quarters)
+  if ((match = text.match(/\b(\d{4})\s+([1-4])\.?\s*ceyrek\b/))) {
+    return toResult(+match[1], (+match[2] - 1) * 3 + 1, 1, 'quarter');
+  }
+  if ((match = text.match(/\b([1-4])\.?\s*ceyrek\s+(\d{4})\b/))) {
+    return toResult(+match[2], (+match[1] - 1) * 3 + 1, 1, 'quarter');
+  }
+  // 2025-H2, H1 2025
+  if ((match = text.match(/\b(\d{4})\s*[-/ ]?\s*h([12])\b/))) {
+    return toResult(+match[1], +match[2] === 1 ? 1 : 7, 1, 'half');
+  }
+  if ((match = text.match(/\bh([12])\s*[-/ ']?\s*(\d{4}|\d{2})\b/))) {
+    return toResult(fullYear(match[2]), +match[1] === 1 ? 1 : 7, 1, 'half');
+  }
+  // August 2025, Aug '25
+  if ((match = text.match(new RegExp(`\\b(${MONTH_NAMES})\\.?\\s*[-/ ']?\\s*(\\d{4}|'\\d{2})\\b`)))) {
+    return toResult(fullYear(match[2].replace("'", '')), MONTHS[match[1]], 1, 'month');
+  }
+  // 2025-08, 2025/08
+  if ((match = text.match(/\b(\d{4})[-/](\d{1,2})\b/))) {
+    return toResult(+match[1], +match[2], 1, 'month');
+  }
+  // 2025
+  if ((match = text.match(/\b(20\d{2})\b/))) {
+    return toResult(+match[1], 1, 1, 'year');
+  }
+  return null;
+}
+
+function toResult(year: number, month: number, day: number, precision: LaunchDatePrecision): { date: string; precision: LaunchDatePrecision } | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects impossible dates like 2025-02-30 or month 13, which Date would silently roll over
+  if (year < 2000 || year > 2100 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return { date: date.toISOString().substring(0, 10), precision };
+}
+
+function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + +year : +year;
+}
+
+// Last day of the period a date stands for, e.g. 2025-09-30 for 2025-Q3
+export function periodEnd(date: string, precision: LaunchDatePrecision): string {
+  const months = { day: 0, month: 1, quarter: 3, half: 6, year: 12 }[precision];
+  if (months === 0) return date;
+  const start = new Date(`${date}T00:00:00Z`);
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 0));
+  return end.toISOString().substring(0, 10);
+}
+
+// From Monday of the current week to the same weekday `weeks` weeks later (exclusive)
+export function timelineWindow(weeks: number, today: Date = new Date()): { start: Date; end: Date } {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((today.getDay() + 6) % 7));
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + weeks * 7);
+  return { start, end };
+}
+
+// Local calendar date as YYYY-MM-DD
+export function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
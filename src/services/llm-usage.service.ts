@@ -0,0 +1,143 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { EMPTY_USAGE_TOTALS, UsageBudget, UsageByModel, UsageLedger, UsageTotals, emptyUsageLedger } from '../models/llm-usage.model';
+import { LlmResponse, LlmUsage } from './llm/llm-provider';
+import { VerificationError } from './verification-error';
+import { toIsoDate } from './launch-status';
+import { estimateCost } from '../core';
+import { ApiKeyService } from './api-key.service';
+
+// Daily totals older than this are dropped
+const KEEP_DAYS = 31;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class LlmUsageService {
+  private apiKeys = inject(ApiKeyService);
+
+  // Local date the daily totals are counted for; moves on at midnight
+  private readonly day = signal(toIsoDate(new Date()));
+  readonly today = this.day.asReadonly();
+
+  // Usage and budget are stored with the active API key, so e.g. a personal and a team key each have their own
+  readonly ledger = computed(() => this.apiKeys.activeKey()?.usage ?? emptyUsageLedger());
+
+  readonly sessionTotals = computed(() => sumTotals(this.ledger().session));
+  readonly todayTotals = computed(() => sumTotals(this.ledger().days[this.day()] ?? {}));
+  readonly budget = computed(() => this.ledger().budget);
+
+  // Which limit has been reached, or null while verification may continue
+  readonly budgetExceeded = computed(() => this.limitReached(0));
+
+  // Estimated cost of the requests still running; counted against the budget so parallel requests can't overshoot it
+  private readonly reservedUsd = signal(0);
+
+  constructor() {
+    this.scheduleDayChange();
+  }
+
+  public record(model: string, usage: LlmUsage | undefined): void {
+    const entry: UsageTotals = {
+      requests: 1,
+      promptTokens: usage?.promptTokens ?? 0,
+      responseTokens: usage?.responseTokens ?? 0,
+      groundingTokens: usage?.groundingTokens ?? 0,
+      groundedRequests: usage?.grounded ? 1 : 0,
+      costUsd: usage ? estimateCost(model, usage) : 0,
+    };
+    this.refreshDay();
+    const today = this.day();
+    this.update(ledger => ({
+      ...ledger,
+      session: addToModel(ledger.session, model, entry),
+      days: { ...ledger.days, [today]: addToModel(ledger.days[today] ?? {}, model, entry) },
+    }));
+  }
+
+  // Called before every LLM request so a reached budget stops verification instead of spending more
+  public reserve(estimatedCostUsd: number): void {
+    // Timers are throttled in background tabs, so the date is checked here too
+    this.refreshDay();
+    const exceeded = this.limitReached(this.reservedUsd());
+    if (exceeded) {
+      const { sessionLimitUsd, dailyLimitUsd } = this.budget();
+      const limit = exceeded === 'session' ? sessionLimitUsd : dailyLimitUsd;
+      throw new VerificationError(
+        `The ${exceeded} budget of $${limit?.toFixed(2)} has been reached. Raise the limit or start a new usage session to continue.`,
+        'budget',
+        undefined,
+        { limit: limit?.toFixed(2) ?? '' }
+      );
+    }
+    this.reservedUsd.update(reserved => reserved + estimatedCostUsd);
+  }
+
+  // Called when a reserved request finishes; a failed request has no response and only frees its reservation
+  public settle(model: string, estimatedCostUsd: number, response: LlmResponse | null): void {
+    this.reservedUsd.update(reserved => Math.max(0, reserved - estimatedCostUsd));
+    if (response) this.record(model, response.usage);
+  }
+
+  public setBudget(changes: Partial<UsageBudget>): void {
+    const valid = (value: number | null | undefined) => value === null || value === undefined || isNaN(value) || value <= 0 ? null : value;
+    this.update(ledger => {
+      const budget = { ...ledger.budget, ...changes };
+      return { ...ledger, budget: { sessionLimitUsd: valid(budget.sessionLimitUsd), dailyLimitUsd: valid(budget.dailyLimitUsd) } };
+    });
+  }
+
+  // Starts counting a new session; daily totals and the budget are kept
+  public startSession(): void {
+    this.update(ledger => ({ ...ledger, session: {}, sessionStartedAt: new Date().toISOString() }));
+  }
+
+  private limitReached(pendingUsd: number): 'session' | 'daily' | null {
+    const { sessionLimitUsd, dailyLimitUsd } = this.budget();
+    if (sessionLimitUsd !== null && this.sessionTotals().costUsd + pendingUsd >= sessionLimitUsd) return 'session';
+    if (dailyLimitUsd !== null && this.todayTotals().costUsd + pendingUsd >= dailyLimitUsd) return 'daily';
+    return null;
+  }
+
+  private update(change: (ledger: UsageLedger) => UsageLedger): void {
+    const key = this.apiKeys.activeKey();
+    if (!key) return;
+    const ledger = change(key.usage);
+    const oldest = new Date();
+    oldest.setDate(oldest.getDate() - KEEP_DAYS);
+    const cutoff = toIsoDate(oldest);
+    ledger.days = Object.fromEntries(Object.entries(ledger.days).filter(([day]) => day >= cutoff));
+    this.apiKeys.setUsage(key.id, ledger);
+  }
+
+  private refreshDay(): void {
+    this.day.set(toIsoDate(new Date()));
+  }
+
+  private scheduleDayChange(): void {
+    const now = new Date();
+    const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    setTimeout(() => {
+      this.refreshDay();
+      this.scheduleDayChange();
+    }, midnight.getTime() - now.getTime());
+  }
+}
+
+export function sumTotals(byModel: UsageByModel): UsageTotals {
+  return Object.values(byModel).reduce(addTotals, { ...EMPTY_USAGE_TOTALS });
+}
+
+function addTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    requests: a.requests + b.requests,
+    promptTokens: a.promptTokens + b.promptTokens,
+    responseTokens: a.responseTokens + b.responseTokens,
+    groundingTokens: a.groundingTokens + b.groundingTokens,
+    groundedRequests: a.groundedRequests + b.groundedRequests,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+function addToModel(byModel: UsageByModel, model: string, entry: UsageTotals): UsageByModel {
+  return { ...byModel, [model]: addTotals(byModel[model] ?? EMPTY_USAGE_TOTALS, entry) };
+}
@@ -0,0 +1,19 @@
+import { GeminiProvider } from './gemini-provider';
+import { LlmProvider, LlmSettings, DEFAULT_MODELS } from './llm-provider';
+import { MockLlmProvider } from './mock-provider';
+import { OpenAiCompatibleProvider } from './openai-compatible-provider';
+
+export function createLlmProvider(settings: LlmSettings, apiKey: string): LlmProvider {
+  const model = settings.model.trim() || DEFAULT_MODELS[settings.provider];
+  switch (settings.provider) {
+    case 'gemini':
+      return new GeminiProvider(apiKey, model);
+    case 'openai-compatible':
+      if (!settings.baseUrl.trim()) {
+        throw new Error('A base URL is required for the OpenAI-compatible provider.');
+      }
+      return new OpenAiCompatibleProvider(settings.baseUrl.trim(), apiKey, model);
+    case 'mock':
+      return new MockLlmProvider(model);
+  }
+}
@@ -0,0 +1,44 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProvider, LlmRequest, LlmResponse, LlmSource } from './llm-provider';
+
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  public async generate(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.prompt,
+      // Gemini does not allow a JSON response type together with search grounding
+      config: request.useSearch
+        ? { tools: [{googleSearch: {}}] }
+        : { responseMimeType: request.json ? 'application/json' : undefined },
+    });
+
+    const sources: LlmSource[] = (response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [])
+      .map(chunk => chunk.web)
+      .filter((web, index, self): web is { uri: string; title?: string } =>
+        !!web?.uri && self.findIndex(w => w?.uri === web.uri) === index
+      )
+      .map(web => ({ title: web.title ?? '', uri: web.uri }));
+
+    const metadata = response.usageMetadata;
+    const usage = metadata && {
+      promptTokens: metadata.promptTokenCount ?? 0,
+      responseTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+      groundingTokens: metadata.toolUsePromptTokenCount ?? 0,
+      grounded: (response.candidates?.[0]?.groundingMetadata?.webSearchQueries?.length ?? 0) > 0,
+    };
+
+    return { text: response.text ?? '', sources, usage };
+  }
+
+  // Token counting is free, but still checks the key and the model name
+  public async validate(): Promise<void> {
+    await this.ai.models.countTokens({ model: this.model, contents: 'ping' });
+  }
+}
@@ -0,0 +1,65 @@
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+}
+
+export interface LlmRequest {
+  prompt: string;
+  // Ask the provider to ground the answer with a web search when it supports one
+  useSearch: boolean;
+  // Ask for a bare JSON response when the provider supports a JSON output mode
+  json?: boolean;
+}
+
+export interface LlmSource {
+  title: string;
+  uri: string;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  responseTokens: number;
+  groundingTokens: number;
+  // Whether the answer was grounded with a web search, which some providers bill per request
+  grounded: boolean;
+}
+
+export interface LlmResponse {
+  text: string;
+  sources: LlmSource[];
+  // Missing when the provider reports no token counts
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  // Cheap request that fails when the API key or model is rejected
+  validate(): Promise<void>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible API (OpenAI, Ollama, LM Studio…)',
+  mock: 'Offline mock (no network)',
+};
+
+export const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  'openai-compatible': 'gpt-4o-mini',
+  mock: 'mock-verifier',
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  baseUrl: 'https://api.openai.com/v1',
+};
+
+// Providers that can run without an API key
+export const KEYLESS_PROVIDERS: LlmProviderId[] = ['openai-compatible', 'mock'];
@@ -0,0 +1,72 @@
+import { LlmProvider, LlmRequest, LlmResponse } from './llm-provider';
+
+export interface MockFixture {
+  // The fixture answers every prompt that contains this text
+  match: string;
+  response: LlmResponse;
+}
+
+export interface MockProviderOptions {
+  fixtures?: MockFixture[];
+  latencyMs?: number;
+}
+
+/**
+ * Offline provider for demos and tests. Prompts matching a fixture get the fixture's response;
+ * every other prompt gets a generated answer derived from a hash of the prompt, so the same
+ * input always produces the same verification result.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly id = 'mock';
+
+  constructor(readonly model: string, private readonly options: MockProviderOptions = {}) {}
+
+  public async generate(request: LlmRequest): Promise<LlmResponse> {
+    const latency = this.options.latencyMs ?? 300;
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    const fixture = this.options.fixtures?.find(f => request.prompt.includes(f.match));
+    if (fixture) {
+      return structuredClone(fixture.response);
+    }
+
+    const hash = hashString(request.prompt);
+    const confidenceScore = hash % 101;
+    const name = request.prompt.match(/"name":\s*"([^"]*)"/)?.[1] || 'This project';
+    const text = JSON.stringify({
+      summary: `${name} is a mock verification result generated offline (confidence ${confidenceScore}).`,
+      confidenceScore,
+      teamStatus: confidenceScore >= 50 ? 'doxxed' : 'anonymous',
+      socialAccounts: [{ platform: 'X', url: `https://x.com/mock${hash.toString(36)}` }],
+      tokenMentions: [],
+      fundingSignals: confidenceScore >= 70 ? ['Mock seed round'] : [],
+      redFlags: confidenceScore < 30 ? ['Mock red flag: no recent activity'] : [],
+      lastActivityDate: '2025-01-01',
+    });
+    return {
+      text,
+      sources: [{ title: 'Mock evidence', uri: `https://example.com/mock/${hash.toString(36)}` }],
+      // Roughly four characters per token, so the usage display has something to show offline
+      usage: {
+        promptTokens: Math.ceil(request.prompt.length / 4),
+        responseTokens: Math.ceil(text.length / 4),
+        groundingTokens: request.useSearch ? 400 : 0,
+        grounded: request.useSearch,
+      },
+    };
+  }
+
+  public async validate(): Promise<void> {}
+}
+
+// FNV-1a, 32 bit
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
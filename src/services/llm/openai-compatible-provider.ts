@@ -0,0 +1,69 @@
+import { LlmProvider, LlmRequest, LlmResponse } from './llm-provider';
+
+export class HttpStatusError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API. These servers have no
+ * built-in web search, so `useSearch` is ignored and no sources are returned.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = 'openai-compatible';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    readonly model: string
+  ) {}
+
+  public async generate(request: LlmRequest): Promise<LlmResponse> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: 0,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await this.statusError(response);
+    }
+
+    const data = await response.json();
+    const usage = data.usage && {
+      promptTokens: data.usage.prompt_tokens ?? 0,
+      responseTokens: data.usage.completion_tokens ?? 0,
+      groundingTokens: 0,
+      grounded: false,
+    };
+    return { text: data.choices?.[0]?.message?.content ?? '', sources: [], usage };
+  }
+
+  // Listing the models needs no tokens and is supported by OpenAI, Ollama and LM Studio
+  public async validate(): Promise<void> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/models`, { headers: this.headers() });
+    if (!response.ok) {
+      throw await this.statusError(response);
+    }
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async statusError(response: Response): Promise<HttpStatusError> {
+    const body = await response.text().catch(() => '');
+    return new HttpStatusError(`Request failed with status ${response.status}: ${body.substring(0, 200)}`, response.status);
+  }
+}
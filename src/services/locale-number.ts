@@ -0,0 +1,34 @@
+import { Locale } from '../models/locale.model';
+
+/**
+ * Reads a number written with either decimal convention, e.g. "7,5" and "7.5" are both 7.5
+ * and "1.234,5" is 1234.5. The locale only decides values that fit both conventions: "1,234"
+ * is 1234 in English data and 1.234 in Turkish data. Like parseFloat, text after the number
+ * is ignored, so "8/10" is 8; NaN is returned when the value does not start with a number.
+ */
+export function parseLocaleNumber(value: string, locale: Locale): number {
+  const match = value.trim().replace(/[\s ']/g, '').match(/^[+-]?(\d[\d.,]*\d|\d)/);
+  if (!match) return NaN;
+
+  let number = match[0];
+  const lastComma = number.lastIndexOf(',');
+  const lastDot = number.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    // With both separators, the last one is the decimal separator
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    number = number.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    number = isDecimalSeparator(number, ',', locale === 'tr') ? number.replace(',', '.') : number.split(',').join('');
+  } else if (lastDot !== -1) {
+    number = isDecimalSeparator(number, '.', locale === 'en') ? number : number.split('.').join('');
+  }
+  return /^[+-]?\d+(\.\d+)?$/.test(number) ? parseFloat(number) : NaN;
+}
+
+// A single separator followed by exactly three digits could be either; the locale decides
+function isDecimalSeparator(number: string, separator: string, localeDecimal: boolean): boolean {
+  const parts = number.split(separator);
+  if (parts.length > 2) return false;
+  return parts[1].length !== 3 || localeDecimal;
+}
@@ -0,0 +1,7 @@
+/**
+ * Lower-cased letters and digits only, with accents removed and the Turkish dotless ı folded to
+ * i, so "Yapay Zekâ", "yapay-zeka" and "YAPAY ZEKA" all give the same key.
+ */
+export function matchKey(text: string): string {
+  return text.toLowerCase().replace(/ı/g, 'i').normalize('NFKD').replace(/[^a-z0-9]/g, '');
+}
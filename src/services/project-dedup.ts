@@ -0,0 +1,164 @@
+import { DuplicateGroup, Project } from '../models/analysis.model';
+import { matchKey } from './match-key';
+import { sourcePlatformOf } from './source-platform';
+
+const NAME_SIMILARITY_THRESHOLD = 0.88;
+// Very short names ("AI", "Zap") are compared exactly only, fuzzy matches on them are mostly noise
+const MIN_FUZZY_NAME_LENGTH = 5;
+
+/**
+ * Reduces a website to host and path so that protocol, `www.`, trailing slash, query and
+ * fragment variants of the same URL compare equal. Returns '' for missing websites.
+ */
+export function canonicalWebsite(url: string): string {
+  if (!url || url === 'N/A') return '';
+  const withoutProtocol = url.trim().toLowerCase().replace(/^[a-z]+:\/\//, '');
+  const [hostAndPath] = withoutProtocol.split(/[?#]/);
+  return hostAndPath.replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+export function normalizeProjectName(name: string): string {
+  return matchKey(name);
+}
+
+// Stable across uploads: the same website (or, without one, the same name) always yields the same ID
+export function projectId(project: Pick<Project, 'projectName' | 'websiteUrl'>): string {
+  const basis = canonicalWebsite(project.websiteUrl) || `name:${normalizeProjectName(project.projectName)}`;
+  return `p-${hashString(basis).toString(36)}`;
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Groups projects that share a canonical website, or that have near-identical names and no
+ * conflicting websites, and merges each group into its highest scoring member.
+ */
+export function deduplicateProjects(projects: Project[]): { projects: Project[]; groups: DuplicateGroup[] } {
+  const parent = projects.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const reasons = new Map<number, Set<DuplicateGroup['reasons'][number]>>();
+  const union = (a: number, b: number, reason: DuplicateGroup['reasons'][number]) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+    if (rootA !== rootB) parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  const websites = projects.map(p => canonicalWebsite(p.websiteUrl));
+  const names = projects.map(p => normalizeProjectName(p.projectName));
+
+  // 1. Same canonical website
+  const byWebsite = new Map<string, number>();
+  websites.forEach((website, i) => {
+    if (!website) return;
+    const first = byWebsite.get(website);
+    if (first === undefined) byWebsite.set(website, i);
+    else union(first, i, 'website');
+  });
+
+  // 2. Same or similar name, compared within blocks sharing a name prefix to keep this fast on large files
+  const blocks = new Map<string, number[]>();
+  names.forEach((name, i) => {
+    if (!name) return;
+    const block = name.substring(0, 3);
+    blocks.set(block, [...(blocks.get(block) ?? []), i]);
+  });
+  blocks.forEach(members => {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const a = members[x];
+        const b = members[y];
+        if (websites[a] && websites[b] && websites[a] !== websites[b]) continue;
+        const similar = names[a] === names[b] || (
+          Math.min(names[a].length, names[b].length) >= MIN_FUZZY_NAME_LENGTH &&
+          nameSimilarity(names[a], names[b]) >= NAME_SIMILARITY_THRESHOLD
+        );
+        if (similar) union(a, b, 'name');
+      }
+    }
+  });
+
+  const grouped = new Map<number, number[]>();
+  projects.forEach((_, i) => {
+    const root = find(i);
+    grouped.set(root, [...(grouped.get(root) ?? []), i]);
+  });
+
+  const result: Project[] = [];
+  const groups: DuplicateGroup[] = [];
+  grouped.forEach((indexes, root) => {
+    const members = indexes.map(i => projects[i]);
+    const merged = mergeProjects(members);
+    result.push(merged);
+    if (members.length > 1) {
+      groups.push({
+        id: merged.id,
+        projectName: merged.projectName,
+        memberNames: members.map(m => m.projectName),
+        websites: [...new Set(members.map(m => m.websiteUrl).filter(w => w && w !== 'N/A'))],
+        reasons: [...(reasons.get(root) ?? [])],
+      });
+    }
+  });
+
+  return { projects: result, groups };
+}
+
+function mergeProjects(members: Project[]): Project {
+  if (members.length === 1) return members[0];
+
+  const primary = members.reduce((best, p) => p.potentialScore > best.potentialScore ? p : best);
+  const others = members.filter(p => p !== primary);
+  const merged: Project = { ...primary };
+
+  const fillable: (keyof Pick<Project, 'websiteUrl' | 'sourcePlatform' | 'launchStatus'>)[] = ['websiteUrl', 'sourcePlatform', 'launchStatus'];
+  fillable.forEach(field => {
+    if (!merged[field] || merged[field] === 'N/A') {
+      merged[field] = others.find(p => p[field] && p[field] !== 'N/A')?.[field] ?? merged[field];
+    }
+  });
+
+  const unique = (values: string[]) => [...new Set(values.map(v => v.trim()).filter(v => v && v !== 'N/A'))];
+  const categories = unique(members.flatMap(p => p.categoryTags.split(',')));
+  merged.categoryTags = categories.length > 0 ? categories.join(', ') : 'N/A';
+  const sources = unique(members.map(p => p.sourcePlatform));
+  merged.sourcePlatform = sources.length > 0 ? sources.join(', ') : 'N/A';
+  const platforms = [...new Set(members.map(sourcePlatformOf))];
+  if (platforms.length > 1) merged.sourcePlatforms = platforms;
+  const notes = unique(members.map(p => p.analystNote));
+  merged.analystNote = notes.length > 0 ? notes.join(' | ') : 'N/A';
+  merged.rawDescription = members
+    .map(p => p.rawDescription)
+    .reduce((longest, d) => d !== 'N/A' && d.length > longest.length ? d : longest, primary.rawDescription);
+
+  merged.id = projectId(merged);
+  return merged;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// FNV-1a, 32 bit
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
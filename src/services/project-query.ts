@@ -0,0 +1,61 @@
+import { ChartData, Project } from '../models/analysis.model';
+import { ProjectFacets, ProjectQuery, VERIFICATION_STATUSES } from '../models/project-query.model';
+import { LAUNCH_STAGES } from '../models/launch-lifecycle.model';
+import { matchesCategory, withCategoryGroups } from './category-taxonomy';
+import { sourcePlatformsOf } from './source-platform';
+
+export function queryProjects(projects: Project[], query: ProjectQuery): Project[] {
+  const terms = query.search.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+
+  const filtered = projects.filter(p => {
+    if (terms.length > 0) {
+      const text = `${p.projectName} ${p.rawDescription} ${p.analystNote}`.toLowerCase();
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    if (query.categories.length > 0 && !query.categories.some(cat => matchesCategory(p.categories ?? [], cat))) return false;
+    if (query.launchStages.length > 0 && !query.launchStages.includes(p.launchStage ?? 'unknown')) return false;
+    if (query.verificationStatuses.length > 0 && !query.verificationStatuses.includes(p.verificationStatus)) return false;
+    if (query.sourcePlatforms.length > 0 && !sourcePlatformsOf(p).some(source => query.sourcePlatforms.includes(source))) return false;
+    if (query.minScore !== null && p.potentialScore < query.minScore) return false;
+    if (query.maxScore !== null && p.potentialScore > query.maxScore) return false;
+    return true;
+  });
+
+  const direction = query.sortDirection === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => {
+    const left = a[query.sortBy];
+    const right = b[query.sortBy];
+    // Missing values (e.g. unverified projects when sorting by verification score) always go last
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right), undefined, { sensitivity: 'base', numeric: true });
+    return order * direction;
+  });
+}
+
+export function buildFacets(projects: Project[]): ProjectFacets {
+  const count = (values: string[]): ChartData[] => {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    return [...counts.entries()]
+      .map(([label, value]) => ({ label, value }))
+      .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label));
+  };
+
+  const verificationCounts = count(projects.map(p => p.verificationStatus));
+  return {
+    // A GameFi project is counted under both GameFi and Gaming, matching how the facet filters
+    categories: count(projects.flatMap(p => withCategoryGroups(p.categories ?? []))),
+    launchStages: LAUNCH_STAGES
+      .map(stage => ({ label: stage, value: projects.filter(p => (p.launchStage ?? 'unknown') === stage).length }))
+      .filter(option => option.value > 0),
+    verificationStatuses: VERIFICATION_STATUSES.map(status => ({
+      label: status,
+      value: verificationCounts.find(c => c.label === status)?.value ?? 0,
+    })),
+    sourcePlatforms: count(projects.flatMap(sourcePlatformsOf)),
+  };
+}
@@ -0,0 +1,111 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { Project } from '../models/analysis.model';
+import { EMPTY_WORKFLOW, PIPELINE_STAGES, ProjectWorkflow } from '../models/workflow.model';
+import { idbGetAll, idbPut } from './indexed-db';
+
+interface StoredWorkflow extends ProjectWorkflow {
+  projectId: string;
+}
+
+/**
+ * Keeps each project's pipeline stage, tags, assignee, follow-up date and notes in IndexedDB.
+ * Workflows are keyed by project ID, which is stable across uploads of the same project.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ProjectWorkflowService {
+  readonly workflows = signal<ReadonlyMap<string, ProjectWorkflow>>(new Map());
+
+  // Every tag and assignee in use, for suggestions while editing
+  readonly knownTags = computed(() => this.distinct(workflow => workflow.tags));
+  readonly knownAssignees = computed(() => this.distinct(workflow => workflow.assignee ? [workflow.assignee] : []));
+
+  constructor() {
+    this.refresh();
+  }
+
+  public get(projectId: string): ProjectWorkflow {
+    return this.workflows().get(projectId) ?? EMPTY_WORKFLOW;
+  }
+
+  public update(projectId: string, changes: Partial<Omit<ProjectWorkflow, 'updatedAt'>>): void {
+    this.save(projectId, { ...this.get(projectId), ...changes });
+  }
+
+  public addNote(projectId: string, text: string): void {
+    const note = text.trim();
+    if (!note) return;
+    const workflow = this.get(projectId);
+    this.save(projectId, { ...workflow, notes: [...workflow.notes, { createdAt: new Date().toISOString(), text: note }] });
+  }
+
+  public removeNote(projectId: string, index: number): void {
+    const workflow = this.get(projectId);
+    this.save(projectId, { ...workflow, notes: workflow.notes.filter((_, i) => i !== index) });
+  }
+
+  // The projects with their workflow attached, for exports
+  public attach(projects: Project[]): Project[] {
+    const workflows = this.workflows();
+    return projects.map(project => {
+      const workflow = workflows.get(project.id);
+      return workflow ? { ...project, workflow } : project;
+    });
+  }
+
+  /**
+   * Takes over the workflows of re-imported projects. A workflow that was edited here after
+   * the export was made is kept.
+   */
+  public importFrom(projects: Project[]): void {
+    projects.forEach(project => {
+      const imported = project.workflow && this.normalize(project.workflow);
+      if (!imported) return;
+      const local = this.workflows().get(project.id);
+      if (!local || local.updatedAt < imported.updatedAt) this.save(project.id, imported, imported.updatedAt);
+    });
+  }
+
+  private save(projectId: string, workflow: ProjectWorkflow, updatedAt = new Date().toISOString()): void {
+    const saved = { ...workflow, updatedAt };
+    this.workflows.update(current => new Map(current).set(projectId, saved));
+    idbPut<StoredWorkflow>('workflows', { ...saved, projectId })
+      .catch(error => console.error('Could not save the project workflow.', error));
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const stored = await idbGetAll<StoredWorkflow>('workflows');
+      this.workflows.update(current => {
+        const loaded = new Map(stored.map(({ projectId, ...workflow }) => [projectId, workflow]));
+        // Edits made while the store was loading win
+        current.forEach((workflow, projectId) => loaded.set(projectId, workflow));
+        return loaded;
+      });
+    } catch (error) {
+      console.error('Could not load the project workflows.', error);
+    }
+  }
+
+  // Imported files can hold anything, so only well-formed fields are kept
+  private normalize(value: Partial<ProjectWorkflow>): ProjectWorkflow | null {
+    if (typeof value !== 'object' || value === null) return null;
+    return {
+      stage: PIPELINE_STAGES.includes(value.stage!) ? value.stage! : 'new',
+      tags: Array.isArray(value.tags) ? value.tags.filter(tag => typeof tag === 'string' && tag.trim()).map(tag => tag.trim()) : [],
+      assignee: typeof value.assignee === 'string' ? value.assignee.trim() : '',
+      followUpDate: typeof value.followUpDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.followUpDate) ? value.followUpDate : null,
+      notes: Array.isArray(value.notes)
+        ? value.notes.filter(note => typeof note?.text === 'string' && note.text.trim()).map(note => ({ createdAt: String(note.createdAt ?? ''), text: note.text }))
+        : [],
+      updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : '',
+    };
+  }
+
+  private distinct(values: (workflow: ProjectWorkflow) => string[]): string[] {
+    const all = new Set<string>();
+    this.workflows().forEach(workflow => values(workflow).forEach(value => all.add(value)));
+    return [...all].sort((a, b) => a.localeCompare(b));
+  }
+}
@@ -0,0 +1,82 @@
+import { Project } from '../models/analysis.model';
+
+// Longest text of each field that goes into a prompt; longer values are cut with an ellipsis
+export const PROMPT_FIELD_LIMITS = {
+  name: 120,
+  website: 200,
+  categories: 200,
+  description: 1500,
+  pageText: 300,
+};
+
+// The verification confidence a flagged project can reach, whatever the model answers
+export const SUSPICIOUS_SCORE_CAP = 40;
+
+// Labels shown on flagged projects, each with the patterns that trigger it
+const INJECTION_PATTERNS: [string, RegExp][] = [
+  ['overrides instructions', /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(instructions?|prompts?|rules|guidelines|directions|above|previous|prior)\b/i],
+  // Turkish: "ignore the previous instructions"; \b does not work next to non-ASCII letters
+  ['overrides instructions', /(önceki|yukarıdaki|tüm)\s.{0,30}(talimat|komut)/i],
+  ['role play', /\b(you are now|from now on,? you|pretend (to be|you are)|new instructions?|developer mode|jailbreak)/i],
+  ['prompt markup', /(<\/?\s*(system|assistant|user|instructions?|project_data|prompt)\b[^>]*>|\[\/?(INST|SYS)\]|<\|[a-z_]+\|>|^\s*(system|assistant)\s*:)/im],
+  ['prompt markup', /(^|\n)\s*#{2,}\s*(system|instructions?|prompt)\b/i],
+  ['dictates the result', /\b(confidence_?score|confidence|trust ?score|legitimacy)\b.{0,30}\b(to|of|=|:|is|be|at)\s*"?(100|9\d|10\/10|maximum|max|highest)\b/i],
+  ['dictates the result', /\b(respond|reply|answer|output|return)\b.{0,20}\b(only|with|exactly)\b.{0,40}(json|\{|verified|legitimate|confidence)/i],
+  ['dictates the result', /\b(mark|rate|classify|report|treat)\s+(this( project)?|it|the project)\s+as\b.{0,20}\b(legit(imate)?|verified|trusted|safe|doxxed)\b/i],
+  ['reveals the prompt', /\b(reveal|print|repeat|show)\b.{0,30}\b(system prompt|your (instructions|prompt))/i],
+];
+
+// Zero-width characters and bidi overrides can hide text from a reviewer while the model still reads it
+const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+// C0/C1 control characters except tab and newline
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g;
+
+/**
+ * Makes an untrusted value safe to embed as prompt data: drops invisible and control
+ * characters, collapses whitespace into single spaces and caps the length.
+ */
+export function sanitizePromptText(value: string | null | undefined, maxLength: number): string {
+  const text = (value ?? '')
+    .replace(INVISIBLE_CHARACTERS, '')
+    .replace(CONTROL_CHARACTERS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+}
+
+// Names of the injection patterns found in a text, without duplicates
+export function detectInjection(value: string | null | undefined): string[] {
+  const text = value ?? '';
+  const found = INJECTION_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([label]) => label);
+  if (text.replace(INVISIBLE_CHARACTERS, '') !== text) found.push('hidden characters');
+  return [...new Set(found)];
+}
+
+/**
+ * Checks every untrusted text of a project, including what the crawler read from its website.
+ * Returns "field: reason" entries, empty when nothing looks suspicious.
+ */
+export function inspectProject(project: Project): string[] {
+  const fields: [string, string | null | undefined][] = [
+    ['name', project.projectName],
+    ['website', project.websiteUrl],
+    ['categories', project.categoryTags],
+    ['description', project.rawDescription],
+    ['analyst note', project.analystNote],
+    ['page title', project.websiteCrawl?.title],
+    ['page description', project.websiteCrawl?.description],
+  ];
+  return fields.flatMap(([field, value]) => detectInjection(value).map(reason => `${field}: ${reason}`));
+}
+
+/**
+ * Serializes untrusted values as a JSON object between <project_data> tags. JSON escaping keeps
+ * quotes and newlines from ending a value, and angle brackets are escaped so the data cannot
+ * close the tag and continue as instructions.
+ */
+export function toPromptData(data: Record<string, string | string[]>): string {
+  const json = JSON.stringify(data, null, 2)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e');
+  return `<project_data>\n${json}\n</project_data>`;
+}
@@ -0,0 +1,42 @@
+import { Injectable, signal } from '@angular/core';
+import { DEFAULT_SCORING_MODEL, ScoringModel } from '../models/scoring-model.model';
+import { normalizeScoringModel, validateScoringModel } from '../core';
+
+const SCORING_MODEL_STORAGE_KEY = 'alpha-scoring-model';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ScoringModelService {
+  readonly model = signal<ScoringModel>(this.loadModel());
+
+  public saveModel(model: ScoringModel): void {
+    const errors = this.validateModel(model);
+    if (errors.length > 0) {
+      throw new Error(errors.join(' '));
+    }
+    this.model.set(model);
+    localStorage.setItem(SCORING_MODEL_STORAGE_KEY, JSON.stringify(model));
+  }
+
+  public resetModel(): void {
+    localStorage.removeItem(SCORING_MODEL_STORAGE_KEY);
+    this.model.set(structuredClone(DEFAULT_SCORING_MODEL));
+  }
+
+  public validateModel(model: ScoringModel): string[] {
+    return validateScoringModel(model);
+  }
+
+  private loadModel(): ScoringModel {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SCORING_MODEL_STORAGE_KEY) || 'null');
+      if (stored) {
+        return normalizeScoringModel(stored);
+      }
+    } catch (error) {
+      console.error('Could not read the stored scoring model, falling back to defaults.', error);
+    }
+    return structuredClone(DEFAULT_SCORING_MODEL);
+  }
+}
@@ -0,0 +1,54 @@
+import { EncryptedSecret } from '../models/api-key.model';
+
+const PBKDF2_ITERATIONS = 310_000;
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is incorrect.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+/** Encrypts a secret with AES-GCM under a key derived from the passphrase with PBKDF2. */
+export async function encryptSecret(secret: string, passphrase: string): Promise<EncryptedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return {
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    iv: toBase64(iv),
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+export async function decryptSecret(secret: EncryptedSecret, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt), secret.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.ciphertext));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM authentication fails when the derived key is wrong
+    throw new WrongPassphraseError();
+  }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
@@ -0,0 +1,76 @@
+import { Injectable, signal } from '@angular/core';
+import { AnalysisResult, CsvParseResult, Project } from '../models/analysis.model';
+import { idbDelete, idbGet, idbGetAll, idbPut } from './indexed-db';
+
+export interface AnalysisSession {
+  id: string;
+  fileName: string;
+  createdAt: string;
+  updatedAt: string;
+  profileName: string;
+  rawProjects: Project[];
+  result: AnalysisResult;
+  parseReport: Omit<CsvParseResult, 'projects'> | null;
+}
+
+export interface AnalysisSessionSummary {
+  id: string;
+  fileName: string;
+  createdAt: string;
+  updatedAt: string;
+  profileName: string;
+  projectCount: number;
+  verifiedCount: number;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionHistoryService {
+  readonly sessions = signal<AnalysisSessionSummary[]>([]);
+
+  constructor() {
+    this.refresh();
+  }
+
+  public createSessionId(): string {
+    return `session-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+  }
+
+  public async save(session: AnalysisSession): Promise<void> {
+    try {
+      await idbPut('sessions', { ...session, updatedAt: new Date().toISOString() });
+      await this.refresh();
+    } catch (error) {
+      console.error('Could not save the analysis session.', error);
+    }
+  }
+
+  public async load(id: string): Promise<AnalysisSession | undefined> {
+    return idbGet<AnalysisSession>('sessions', id);
+  }
+
+  public async delete(id: string): Promise<void> {
+    await idbDelete('sessions', id);
+    await this.refresh();
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const sessions = await idbGetAll<AnalysisSession>('sessions');
+      this.sessions.set(sessions
+        .map(s => ({
+          id: s.id,
+          fileName: s.fileName,
+          createdAt: s.createdAt,
+          updatedAt: s.updatedAt,
+          profileName: s.profileName,
+          projectCount: s.result.prioritizedProjects.length,
+          verifiedCount: s.result.prioritizedProjects.filter(p => p.verificationStatus === 'verified').length,
+        }))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+    } catch (error) {
+      console.error('Could not read the session history.', error);
+    }
+  }
+}
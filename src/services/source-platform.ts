@@ -0,0 +1,27 @@
+import { Project } from '../models/analysis.model';
+import { SOURCE_PLATFORMS, SourcePlatformDefinition } from '../models/source-platform.model';
+import { matchKey } from './match-key';
+
+export const UNKNOWN_SOURCE_PLATFORM = 'Unknown';
+
+const SOURCE_BY_KEY = new Map<string, SourcePlatformDefinition>(
+  SOURCE_PLATFORMS.flatMap(source => [source.name, ...source.aliases].map(alias => [matchKey(alias), source] as const))
+);
+
+// Maps a source as written, or a URL on the source's domain, to its canonical name; unknown sources are kept as written
+export function canonicalSourcePlatform(source: string): string {
+  const trimmed = source.trim();
+  const domain = trimmed.replace(/^[a-z]+:\/\//i, '').replace(/^www\./i, '').split(/[/?#]/)[0];
+  return (SOURCE_BY_KEY.get(matchKey(trimmed)) ?? SOURCE_BY_KEY.get(matchKey(domain)))?.name ?? trimmed;
+}
+
+// The discovery source a project was found on, as shown in charts and the source facet
+export function sourcePlatformOf(project: Project): string {
+  const source = project.sourcePlatform?.trim();
+  return source && source !== 'N/A' ? canonicalSourcePlatform(source) : UNKNOWN_SOURCE_PLATFORM;
+}
+
+// Every source a project was found on; a merged duplicate counts for each of its members' sources
+export function sourcePlatformsOf(project: Project): string[] {
+  return project.sourcePlatforms ?? [sourcePlatformOf(project)];
+}
@@ -0,0 +1,84 @@
+import { Injectable, signal } from '@angular/core';
+import { Project } from '../models/analysis.model';
+import { canonicalWebsite, normalizeProjectName } from './project-dedup';
+import { idbClear, idbDelete, idbGet, idbPut } from './indexed-db';
+
+const TTL_STORAGE_KEY = 'alpha-verification-cache-ttl-days';
+const DEFAULT_TTL_DAYS = 14;
+
+type CachedVerification = Pick<Project, 'verificationSummary' | 'verificationScore' | 'verificationDetails' | 'evidenceLinks' | 'websiteCrawl'>;
+
+interface VerificationCacheEntry {
+  key: string;
+  cachedAt: number;
+  result: CachedVerification;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class VerificationCacheService {
+  readonly ttlDays = signal<number>(parseFloat(localStorage.getItem(TTL_STORAGE_KEY) || '') || DEFAULT_TTL_DAYS);
+
+  public setTtlDays(days: number): void {
+    if (isNaN(days) || days <= 0) return;
+    this.ttlDays.set(days);
+    localStorage.setItem(TTL_STORAGE_KEY, days.toString());
+  }
+
+  // Projects are identified by their normalized name and website so re-uploads of the same project hit the cache
+  public cacheKey(project: Project): string {
+    return `${normalizeProjectName(project.projectName)}|${canonicalWebsite(project.websiteUrl)}`;
+  }
+
+  public async get(project: Project): Promise<Partial<Project> | null> {
+    const key = this.cacheKey(project);
+    try {
+      const entry = await idbGet<VerificationCacheEntry>('verifications', key);
+      if (!entry) return null;
+      if (Date.now() - entry.cachedAt > this.ttlDays() * 24 * 60 * 60 * 1000) {
+        await idbDelete('verifications', key);
+        return null;
+      }
+      return { ...entry.result, verificationStatus: 'verified' };
+    } catch (error) {
+      console.error('Could not read the verification cache.', error);
+      return null;
+    }
+  }
+
+  public async put(project: Project, verification: Partial<Project>): Promise<void> {
+    const entry: VerificationCacheEntry = {
+      key: this.cacheKey(project),
+      cachedAt: Date.now(),
+      result: {
+        verificationSummary: verification.verificationSummary,
+        verificationScore: verification.verificationScore,
+        verificationDetails: verification.verificationDetails,
+        evidenceLinks: verification.evidenceLinks,
+        websiteCrawl: verification.websiteCrawl ?? project.websiteCrawl,
+      },
+    };
+    try {
+      await idbPut('verifications', entry);
+    } catch (error) {
+      console.error('Could not write to the verification cache.', error);
+    }
+  }
+
+  // Returns the cached verification results for every unverified project that has a fresh cache entry
+  public async lookup(projects: Project[]): Promise<Map<string, Partial<Project>>> {
+    const found = new Map<string, Partial<Project>>();
+    await Promise.all(projects
+      .filter(p => p.verificationStatus === 'unverified')
+      .map(async project => {
+        const cached = await this.get(project);
+        if (cached) found.set(project.id, cached);
+      }));
+    return found;
+  }
+
+  public async clear(): Promise<void> {
+    await idbClear('verifications');
+  }
+}
@@ -0,0 +1,71 @@
+import { CodedMessage } from '../models/analysis.model';
+
+export type VerificationErrorKind =
+  | 'rate-limit'
+  | 'server'
+  | 'network'
+  | 'auth'
+  | 'invalid-response'
+  | 'not-initialized'
+  // The session or daily cost limit has been reached
+  | 'budget'
+  | 'unknown';
+
+const RETRYABLE_KINDS: VerificationErrorKind[] = ['rate-limit', 'server', 'network'];
+
+/**
+ * The message is English, for logs and the CLI; the UI translates the kind with the params
+ * filled in instead.
+ */
+export class VerificationError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: VerificationErrorKind,
+    public readonly status?: number,
+    public readonly params: Record<string, string | number> = {}
+  ) {
+    super(message);
+    this.name = 'VerificationError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get reason(): CodedMessage<VerificationErrorKind> {
+    return { code: this.kind, params: this.params };
+  }
+}
+
+/**
+ * Maps anything thrown while calling the LLM API to a VerificationError. HTTP status codes are
+ * taken from the error object when available and otherwise read from the error message.
+ */
+export function toVerificationError(error: unknown): VerificationError {
+  if (error instanceof VerificationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = extractStatus(error, message);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+    return new VerificationError('Rate limit or quota exceeded.', 'rate-limit', status ?? 429);
+  }
+  if (status !== undefined && status >= 500) {
+    return new VerificationError(`The API returned a server error (${status}).`, 'server', status, { status });
+  }
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new VerificationError('The API key was rejected.', 'auth', status);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new VerificationError('Network error while contacting the API.', 'network');
+  }
+  return new VerificationError(message || 'Unknown verification error.', 'unknown', status, { message });
+}
+
+function extractStatus(error: unknown, message: string): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status;
+
+  const match = message.match(/\b(429|5\d\d|401|403)\b/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
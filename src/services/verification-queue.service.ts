@@ -0,0 +1,215 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { CodedMessage, Project } from '../models/analysis.model';
+import { CsvAnalysisService } from './csv-analysis.service';
+import { WebsiteCrawlerService } from './website-crawler.service';
+import { VerificationErrorKind, toVerificationError } from './verification-error';
+
+export type VerificationQueueItemState = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface VerificationQueueItem {
+  key: string;
+  project: Project;
+  state: VerificationQueueItemState;
+  attempts: number;
+  error?: CodedMessage<VerificationErrorKind>;
+  // Epoch milliseconds of the next attempt while the item is backing off
+  retryAt?: number;
+}
+
+export interface VerificationQueueSettings {
+  concurrency: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+export type ProjectUpdateHandler = (key: string, updates: Partial<Project>) => void;
+
+const SETTINGS_STORAGE_KEY = 'alpha-verification-queue-settings';
+
+const DEFAULT_SETTINGS: VerificationQueueSettings = {
+  concurrency: 2,
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class VerificationQueueService {
+  private analysisService = inject(CsvAnalysisService);
+  private crawler = inject(WebsiteCrawlerService);
+
+  readonly items = signal<VerificationQueueItem[]>([]);
+  readonly paused = signal(false);
+  readonly settings = signal<VerificationQueueSettings>(this.loadSettings());
+
+  readonly progress = computed(() => {
+    const items = this.items();
+    const count = (...states: VerificationQueueItemState[]) => items.filter(i => states.includes(i.state)).length;
+    return {
+      total: items.length,
+      done: count('done'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      active: count('running', 'waiting'),
+      pending: count('queued', 'running', 'waiting'),
+    };
+  });
+
+  readonly isBusy = computed(() => this.progress().pending > 0);
+
+  private updateHandler: ProjectUpdateHandler | null = null;
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  public registerUpdateHandler(handler: ProjectUpdateHandler): void {
+    this.updateHandler = handler;
+  }
+
+  public keyOf(project: Project): string {
+    return project.id;
+  }
+
+  public enqueue(projects: Project[]): void {
+    const pendingKeys = new Set(
+      this.items().filter(i => ['queued', 'running', 'waiting'].includes(i.state)).map(i => i.key)
+    );
+    const newItems = projects
+      .filter(p => !pendingKeys.has(this.keyOf(p)))
+      .map(project => ({ key: this.keyOf(project), project, state: 'queued' as const, attempts: 0 }));
+    if (newItems.length === 0) return;
+
+    const newKeys = new Set(newItems.map(i => i.key));
+    // Replace finished entries for the same projects so each project appears once
+    this.items.update(items => [...items.filter(i => !newKeys.has(i.key)), ...newItems]);
+    this.pump();
+  }
+
+  public retry(key: string): void {
+    const item = this.items().find(i => i.key === key);
+    if (item && (item.state === 'failed' || item.state === 'cancelled')) {
+      this.enqueue([item.project]);
+    }
+  }
+
+  public retryFailed(): void {
+    this.enqueue(this.items().filter(i => i.state === 'failed' || i.state === 'cancelled').map(i => i.project));
+  }
+
+  public pause(): void {
+    this.paused.set(true);
+  }
+
+  public resume(): void {
+    this.paused.set(false);
+    this.pump();
+  }
+
+  // Stops everything that has not finished; results of requests already in flight are discarded
+  public cancel(): void {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.items().forEach(item => {
+      if (item.state === 'queued' || item.state === 'running' || item.state === 'waiting') {
+        this.patchItem(item.key, { state: 'cancelled', retryAt: undefined });
+        this.updateHandler?.(item.key, { verificationStatus: 'unverified' });
+      }
+    });
+  }
+
+  public clearFinished(): void {
+    this.items.update(items => items.filter(i => !['done', 'failed', 'cancelled'].includes(i.state)));
+  }
+
+  public reset(): void {
+    this.cancel();
+    this.items.set([]);
+    this.paused.set(false);
+  }
+
+  public updateSettings(changes: Partial<VerificationQueueSettings>): void {
+    const settings = { ...this.settings(), ...changes };
+    settings.concurrency = Math.min(Math.max(Math.round(settings.concurrency) || 1, 1), 10);
+    settings.maxAttempts = Math.min(Math.max(Math.round(settings.maxAttempts) || 1, 1), 10);
+    this.settings.set(settings);
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    this.pump();
+  }
+
+  private pump(): void {
+    if (this.paused()) return;
+
+    let running = this.items().filter(i => i.state === 'running').length;
+    for (const item of this.items()) {
+      if (running >= this.settings().concurrency) break;
+      if (item.state !== 'queued') continue;
+      running++;
+      this.run(item);
+    }
+  }
+
+  private async run(item: VerificationQueueItem): Promise<void> {
+    const attempts = item.attempts + 1;
+    this.patchItem(item.key, { state: 'running', attempts, error: undefined, retryAt: undefined });
+    this.updateHandler?.(item.key, { verificationStatus: 'verifying' });
+
+    try {
+      // Crawl the website first so its status and links can go into the prompt as evidence
+      let project = item.project;
+      if (this.crawler.needsCrawl(project)) {
+        const websiteCrawl = await this.crawler.crawl(project);
+        if (!this.isRunning(item.key)) return;
+        if (websiteCrawl) {
+          project = { ...project, websiteCrawl };
+          this.patchItem(item.key, { project });
+          this.updateHandler?.(item.key, { websiteCrawl });
+        }
+      }
+
+      const verificationData = await this.analysisService.verifyProject(project);
+      if (!this.isRunning(item.key)) return;
+      this.patchItem(item.key, { state: 'done' });
+      this.updateHandler?.(item.key, verificationData);
+    } catch (caught) {
+      if (!this.isRunning(item.key)) return;
+      const error = toVerificationError(caught);
+
+      if (error.kind === 'budget') {
+        // Nothing was spent on this item, so it waits in the queue until the budget allows more calls
+        this.patchItem(item.key, { state: 'queued', attempts: item.attempts, error: error.reason });
+        this.updateHandler?.(item.key, { verificationStatus: 'unverified' });
+        this.pause();
+      } else if (error.retryable && attempts < this.settings().maxAttempts) {
+        // Exponential backoff with jitter: base, 2x base, 4x base, ...
+        const delay = this.settings().baseDelayMs * 2 ** (attempts - 1) * (1 + Math.random() * 0.25);
+        this.patchItem(item.key, { state: 'waiting', error: error.reason, retryAt: Date.now() + delay });
+        this.retryTimers.set(item.key, setTimeout(() => {
+          this.retryTimers.delete(item.key);
+          if (this.items().find(i => i.key === item.key)?.state !== 'waiting') return;
+          this.patchItem(item.key, { state: 'queued', retryAt: undefined });
+          this.pump();
+        }, delay));
+      } else {
+        this.patchItem(item.key, { state: 'failed', error: error.reason });
+        this.updateHandler?.(item.key, { verificationStatus: 'failed', verificationError: error.message });
+      }
+    } finally {
+      this.pump();
+    }
+  }
+
+  private isRunning(key: string): boolean {
+    return this.items().find(i => i.key === key)?.state === 'running';
+  }
+
+  private patchItem(key: string, changes: Partial<VerificationQueueItem>): void {
+    this.items.update(items => items.map(i => i.key === key ? { ...i, ...changes } : i));
+  }
+
+  private loadSettings(): VerificationQueueSettings {
+    try {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') };
+    } catch {
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+}
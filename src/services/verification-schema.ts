@@ -0,0 +1,156 @@
+import { SocialAccount, TEAM_STATUSES, TeamStatus, TokenMention, VerificationReport } from '../models/verification.model';
+
+export interface VerificationValidationResult {
+  report: VerificationReport | null;
+  errors: string[];
+}
+
+// Shown to the model so it knows the exact shape to return
+export const VERIFICATION_RESPONSE_SHAPE = `{
+  "summary": string,               // one sentence: the project's main purpose and current status
+  "confidenceScore": integer,      // 0-100, confidence that this is a real, active project
+  "teamStatus": "doxxed" | "partially-doxxed" | "anonymous" | "unknown",
+  "socialAccounts": [{ "platform": string, "url": string }],
+  "tokenMentions": [{ "symbol": string | null, "contractAddress": string | null, "chain": string | null }],
+  "fundingSignals": [string],      // e.g. named investors, funding rounds, grants
+  "redFlags": [string],            // e.g. copied whitepaper, dead socials, rug pull reports
+  "lastActivityDate": string | null // YYYY-MM-DD or YYYY-MM of the latest public activity
+}`;
+
+const TEAM_STATUS_ALIASES: Record<string, TeamStatus> = {
+  yes: 'doxxed',
+  public: 'doxxed',
+  known: 'doxxed',
+  partial: 'partially-doxxed',
+  partially: 'partially-doxxed',
+  no: 'anonymous',
+  anon: 'anonymous',
+  pseudonymous: 'anonymous',
+};
+
+/**
+ * Pulls the JSON object out of a model response: markdown fences and any prose before the
+ * first `{` or after the last `}` are dropped.
+ */
+export function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return start !== -1 && end > start ? candidate.substring(start, end + 1) : candidate.trim();
+}
+
+export function parseVerificationResponse(text: string): VerificationValidationResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(text));
+  } catch {
+    return { report: null, errors: ['The response is not valid JSON.'] };
+  }
+  return validateVerificationReport(value);
+}
+
+/**
+ * Checks a parsed response against the verification schema. Harmless deviations are repaired
+ * (numeric strings, missing optional lists, team status synonyms); anything else is reported
+ * as an error so the caller can ask the model again.
+ */
+export function validateVerificationReport(value: unknown): VerificationValidationResult {
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    return { report: null, errors: ['The response must be a JSON object.'] };
+  }
+
+  const summary = typeof value['summary'] === 'string' ? value['summary'].trim() : '';
+  if (!summary) {
+    errors.push('"summary" must be a non-empty string.');
+  }
+
+  const confidenceScore = toInteger(value['confidenceScore']);
+  if (confidenceScore === null || confidenceScore < 0 || confidenceScore > 100) {
+    errors.push('"confidenceScore" must be an integer between 0 and 100.');
+  }
+
+  const teamStatus = toTeamStatus(value['teamStatus']);
+  if (teamStatus === null) {
+    errors.push(`"teamStatus" must be one of ${TEAM_STATUSES.join(', ')}.`);
+  }
+
+  const socialAccounts = toArray(value['socialAccounts'], 'socialAccounts', errors)
+    .filter(isRecord)
+    .map(a => ({ platform: toText(a['platform']) ?? '', url: toText(a['url']) ?? '' }))
+    .filter((a: SocialAccount) => /^https?:\/\//i.test(a.url));
+
+  const tokenMentions = toArray(value['tokenMentions'], 'tokenMentions', errors)
+    .filter(isRecord)
+    .map((t): TokenMention => ({
+      symbol: toText(t['symbol']),
+      contractAddress: toText(t['contractAddress']),
+      chain: toText(t['chain']),
+    }))
+    .filter(t => t.symbol || t.contractAddress);
+
+  const fundingSignals = toStringList(value['fundingSignals'], 'fundingSignals', errors);
+  const redFlags = toStringList(value['redFlags'], 'redFlags', errors);
+
+  const rawDate = toText(value['lastActivityDate']);
+  const lastActivityDate = rawDate && /^\d{4}-\d{2}(-\d{2})?$/.test(rawDate) ? rawDate : null;
+
+  if (errors.length > 0) {
+    return { report: null, errors };
+  }
+  return {
+    report: {
+      summary,
+      confidenceScore: confidenceScore!,
+      teamStatus: teamStatus!,
+      socialAccounts,
+      tokenMentions,
+      fundingSignals,
+      redFlags,
+      lastActivityDate,
+    },
+    errors: [],
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toText(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return value.toString();
+  return null;
+}
+
+function toInteger(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseFloat(value.replace('%', '')) : value;
+  if (typeof number !== 'number' || !isFinite(number)) return null;
+  return Math.round(number);
+}
+
+function toTeamStatus(value: unknown): TeamStatus | null {
+  if (value === undefined || value === null) return 'unknown';
+  if (typeof value === 'boolean') return value ? 'doxxed' : 'anonymous';
+  if (typeof value !== 'string') return null;
+
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  if ((TEAM_STATUSES as string[]).includes(normalized)) return normalized as TeamStatus;
+  return TEAM_STATUS_ALIASES[normalized] ?? null;
+}
+
+function toArray(value: unknown, field: string, errors: string[]): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`"${field}" must be an array.`);
+    return [];
+  }
+  return value;
+}
+
+function toStringList(value: unknown, field: string, errors: string[]): string[] {
+  return toArray(value, field, errors)
+    .map(toText)
+    .filter((item): item is string => item !== null);
+}
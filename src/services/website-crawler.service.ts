@@ -0,0 +1,69 @@
+import { Injectable, signal } from '@angular/core';
+import { Project } from '../models/analysis.model';
+import { CrawlerSettings, DEFAULT_CRAWLER_SETTINGS, WebsiteCrawl } from '../models/website-crawl.model';
+
+const SETTINGS_STORAGE_KEY = 'alpha-crawler-settings';
+// A crawl older than this is repeated when the project is verified again
+const CRAWL_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class WebsiteCrawlerService {
+  readonly settings = signal<CrawlerSettings>(this.loadSettings());
+  // Result of the last connection check, null until the proxy has been checked
+  readonly proxyReachable = signal<boolean | null>(null);
+
+  public updateSettings(changes: Partial<CrawlerSettings>): void {
+    const settings = { ...this.settings(), ...changes };
+    settings.proxyUrl = settings.proxyUrl.trim().replace(/\/+$/, '') || DEFAULT_CRAWLER_SETTINGS.proxyUrl;
+    this.settings.set(settings);
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    this.proxyReachable.set(null);
+  }
+
+  public async checkProxy(): Promise<boolean> {
+    let reachable = false;
+    try {
+      reachable = (await fetch(`${this.settings().proxyUrl}/health`)).ok;
+    } catch {
+      // Connection refused, the proxy is not running
+    }
+    this.proxyReachable.set(reachable);
+    return reachable;
+  }
+
+  public needsCrawl(project: Project): boolean {
+    if (!this.settings().enabled || !project.websiteUrl || project.websiteUrl === 'N/A') return false;
+    const crawledAt = project.websiteCrawl ? Date.parse(project.websiteCrawl.crawledAt) : NaN;
+    return isNaN(crawledAt) || Date.now() - crawledAt > CRAWL_MAX_AGE_MS;
+  }
+
+  /**
+   * Fetches the project website through the crawler proxy. Returns null when the proxy itself
+   * is unreachable, so verification can continue without the extra evidence.
+   */
+  public async crawl(project: Project): Promise<WebsiteCrawl | null> {
+    const url = `${this.settings().proxyUrl}/crawl?url=${encodeURIComponent(project.websiteUrl)}`;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`The crawler proxy returned ${response.status}.`);
+      }
+      this.proxyReachable.set(true);
+      return await response.json() as WebsiteCrawl;
+    } catch (error) {
+      console.warn(`Could not crawl ${project.websiteUrl}:`, error);
+      this.proxyReachable.set(false);
+      return null;
+    }
+  }
+
+  private loadSettings(): CrawlerSettings {
+    try {
+      return { ...DEFAULT_CRAWLER_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') };
+    } catch {
+      return { ...DEFAULT_CRAWLER_SETTINGS };
+    }
+  }
+}
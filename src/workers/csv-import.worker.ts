@@ -0,0 +1,19 @@
+/// <reference lib="webworker" />
+import { CsvWorkerRequest, CsvWorkerResponse, importCsvFile, previewCsvFile } from '../core';
+
+// Parses and analyzes uploaded CSV files off the main thread; the app cancels a job by terminating the worker
+const post = (message: CsvWorkerResponse) => postMessage(message);
+
+addEventListener('message', async ({ data: request }: MessageEvent<CsvWorkerRequest>) => {
+  const id = request.id;
+  try {
+    if (request.type === 'preview') {
+      post({ id, type: 'preview', preview: await previewCsvFile(request.file) });
+    } else {
+      const outcome = await importCsvFile(request.file, request.options, progress => post({ id, type: 'progress', progress }));
+      post({ id, type: 'import', outcome });
+    }
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});